@@ -1,4 +1,6 @@
 import { createClient } from '@supabase/supabase-js'
+import { getAuthToken } from '../src/store'
+import { MessagingToken, authService } from '../src/Services/dbService'
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || 'https://nufeuxdqjfithhleezox.supabase.co';
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY || '';
@@ -7,4 +9,35 @@ if (!supabaseUrl || !supabaseAnonKey) {
   console.warn('⚠️ Supabase environment variables not fully configured. Using defaults.');
 }
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+// Refetch this long before the messaging token expires
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+// Messaging token for the current backend session; dropped when the session changes
+let cached: { sessionToken: string; token: Promise<MessagingToken | null> } | null = null;
+
+/**
+ * Supabase JWT for the signed-in user. Signed out, requests go with the anon
+ * key alone and row level security returns nothing.
+ */
+const getAccessToken = async (): Promise<string | null> => {
+  const sessionToken = getAuthToken();
+  if (!sessionToken) {
+    cached = null;
+    return null;
+  }
+
+  if (cached?.sessionToken === sessionToken) {
+    const current = await cached.token;
+    if (current && new Date(current.expiresAt).getTime() - REFRESH_MARGIN_MS > Date.now()) {
+      return current.token;
+    }
+  }
+
+  // Shared by concurrent callers so only one exchange is in flight
+  cached = { sessionToken, token: authService.fetchMessagingToken() };
+  return (await cached.token)?.token ?? null;
+};
+
+export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+  accessToken: getAccessToken,
+});
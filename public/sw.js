@@ -0,0 +1,98 @@
+/**
+ * Service worker
+ * Caches the app shell and listing photos so the marketplace opens offline.
+ * API responses are not cached here: the app keeps its own copy of the last
+ * fetched listings in IndexedDB (src/Services/offlineStore.ts).
+ */
+
+const VERSION = 'v1';
+const SHELL_CACHE = `shell-${VERSION}`;
+const IMAGE_CACHE = `images-${VERSION}`;
+
+// Photos are cached as they are viewed; the oldest are evicted past this
+const MAX_CACHED_IMAGES = 200;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll(['/', '/manifest.webmanifest', '/icon.svg']))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key !== SHELL_CACHE && key !== IMAGE_CACHE)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+const trimCache = async (cacheName, maxEntries) => {
+  const cache = await caches.open(cacheName);
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, keys.length - maxEntries).map((key) => cache.delete(key)));
+};
+
+// Pages: network first so deploys show up immediately, cached shell offline.
+// Every route is the same index.html, so any cached copy will do.
+const handleNavigation = async (request) => {
+  try {
+    const response = await fetch(request);
+    const cache = await caches.open(SHELL_CACHE);
+    cache.put('/', response.clone());
+    return response;
+  } catch {
+    return (await caches.match('/')) ?? Response.error();
+  }
+};
+
+// Hashed build assets never change, so a cached copy is always valid
+const handleAsset = async (request) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(SHELL_CACHE);
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+const handleImage = async (request) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok || response.type === 'opaque') {
+    const cache = await caches.open(IMAGE_CACHE);
+    await cache.put(request, response.clone());
+    trimCache(IMAGE_CACHE, MAX_CACHED_IMAGES);
+  }
+  return response;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+  } else if (request.destination === 'image') {
+    event.respondWith(handleImage(request));
+  } else if (
+    url.origin === self.location.origin ||
+    url.hostname === 'cdn.tailwindcss.com' ||
+    url.hostname.startsWith('fonts.')
+  ) {
+    event.respondWith(handleAsset(request));
+  }
+});
@@ -0,0 +1,35 @@
+-- One-off migration: rewrites account phone numbers saved before validation
+-- ("0712 345 678", "254712345678", ...) in E.164 form (+254712345678), using
+-- the same rules as src/utils/phone.ts. Run once against the marketplace
+-- backend database; numbers that aren't Kenyan mobile numbers are left as
+-- they are. Assumes accounts are stored in profiles(id, phone).
+
+with parsed as (
+  select
+    id,
+    phone,
+    -- Spaces, dashes, dots and brackets are only formatting
+    regexp_replace(btrim(phone), '[[:space:].()-]', '', 'g') as compact
+  from profiles
+  where phone is not null and phone <> ''
+),
+digits as (
+  select id, phone, regexp_replace(regexp_replace(compact, '^\+', ''), '^00', '') as digits
+  from parsed
+  where compact ~ '^\+?[0-9]+$'
+),
+national as (
+  select id, phone, case
+    when digits ~ '^254[0-9]{9}$' then substr(digits, 4)
+    when digits ~ '^0[0-9]{9}$' then substr(digits, 2)
+    when digits ~ '^[0-9]{9}$' then digits
+  end as national
+  from digits
+)
+update profiles p
+   set phone = '+254' || n.national
+  from national n
+ where p.id = n.id
+   -- Safaricom, Airtel and Telkom prefixes (NETWORK_PREFIXES in phone.ts)
+   and n.national ~ '^(7[0-3]|74[0-68]|75[0-9]|76[289]|7[7-9]|10[0-2]|11[0-5])'
+   and p.phone <> '+254' || n.national;
@@ -1,85 +1,331 @@
 import React, { useState, useEffect, useMemo } from "react";
 import { Navbar } from "./components/Navbar";
 import { ProductCard } from "./components/ProductCard";
-import { User, Product, Category, Condition } from "./types";
-import { getStoredUser, saveUser } from "./store";
-import { productService, authService } from "./Services/dbService";
-import { generateProductDescription } from "./Services/geminiService";
-import { validateAndLogImageState } from "./utils/imageValidation";
+import { InfiniteScrollSentinel } from "./components/InfiniteScrollSentinel";
+import {
+  AuthSession,
+  Conversation,
+  Favorite,
+  Message,
+  User,
+  Product,
+  ProductQuery,
+  PublicProfile,
+  ResponseStats,
+  Review,
+  Category,
+  CategorySetting,
+  Condition,
+  MarketplaceStats,
+  ModerationItem,
+  ListingStatus,
+  ListingAttributes,
+  ListingInput,
+  ListingSuggestion,
+  Offer,
+  OfferStatus,
+  PhotoIssueKind,
+  ReportReason,
+  SellerAnalytics,
+  UserRole,
+} from "./types";
+import {
+  SavedSearch,
+  clearUserData,
+  getMyUnits,
+  getStoredSession,
+  saveMyUnits,
+  saveSession,
+} from "./store";
+import {
+  productService,
+  authService,
+  userService,
+  reviewService,
+  reportService,
+  moderationService,
+  adminService,
+  analyticsService,
+  offerService,
+  setForbiddenHandler,
+  setUnauthorizedHandler,
+} from "./Services/dbService";
+import {
+  generateProductDescription,
+  suggestListingFromImages,
+} from "./Services/geminiService";
+import { chatService, MAX_MESSAGE_LENGTH } from "./Services/chatService";
+import { navigate, parseRoute, paths, useLocation, useRoute } from "./router";
+import {
+  CompressedImage,
+  compressImage,
+  formatBytes,
+} from "./utils/imageCompression";
+import {
+  PHONE_HINT,
+  formatLocalPhone,
+  toE164,
+  toWhatsAppNumber,
+} from "./utils/phone";
+import {
+  BrowseFilters,
+  SORT_OPTIONS,
+  STATUS_FILTER_OPTIONS,
+  filtersFromSearch,
+  filtersToQuery,
+  filtersToSearch,
+  hasActiveFilters,
+} from "./utils/productFilters";
+import {
+  BUMP_COOLDOWN_HOURS,
+  daysUntilExpiry,
+  isExpired,
+  isExpiringSoon,
+  nextBumpAt,
+} from "./utils/listingExpiry";
+import {
+  AttributeField,
+  attributeFields,
+  formatAttribute,
+  pickAttributes,
+} from "./utils/categoryAttributes";
+import {
+  MAX_UNITS_PER_LISTING,
+  UNIT_TAGGED_CATEGORIES,
+  parseUnitCodes,
+  unitTitle,
+} from "./utils/unitCatalog";
+import {
+  ACTIVE_STATUSES,
+  STATUS_ACTIONS,
+  STATUS_LABELS,
+  isActive,
+  nextStatuses,
+} from "./utils/listingStatus";
+import { useProductFeed } from "./hooks/useProductFeed";
+import { useProduct } from "./hooks/useProduct";
+import { useDebouncedValue } from "./hooks/useDebouncedValue";
+import { useUnreadMessages } from "./hooks/useUnreadMessages";
+import { useNotifications } from "./hooks/useNotifications";
+import { useWatchlist } from "./hooks/useWatchlist";
+import { useSavedSearches } from "./hooks/useSavedSearches";
+import { useExpiryReminders } from "./hooks/useExpiryReminders";
+import { useOnlineStatus } from "./hooks/useOnlineStatus";
+import { useOutbox } from "./hooks/useOutbox";
+import { useCategories } from "./hooks/useCategories";
+import { OutboxEntry, offlineStore } from "./Services/offlineStore";
+import { FavoriteButton } from "./components/FavoriteButton";
+import { RatingBadge, StarRating } from "./components/StarRating";
+import { TrendChart } from "./components/TrendChart";
+import { UnitCodeInput } from "./components/UnitCodeInput";
 
 const App: React.FC = () => {
-  const [currentPage, setCurrentPage] = useState<string>("home");
-  const [user, setUser] = useState<User | null>(getStoredUser());
-  const [products, setProducts] = useState<Product[]>([]);
-  const [isLoading, setIsLoading] = useState<boolean>(true);
-  const [error, setError] = useState<string | null>(null);
-  const [selectedProductId, setSelectedProductId] = useState<string | null>(
-    null,
+  const route = useRoute();
+  const location = useLocation();
+  const [session, setSession] = useState<AuthSession | null>(
+    getStoredSession(),
   );
+  const user = session?.user ?? null;
 
-  // Filters
-  const [searchQuery, setSearchQuery] = useState("");
-  const [activeCategory, setActiveCategory] = useState<string>("All");
-
-  const loadProducts = async () => {
-    setIsLoading(true);
-    setError(null);
-    try {
-      const data = await productService.fetchAll();
-      setProducts(data);
-    } catch (err: any) {
-      setError(
-        "Unable to connect to the marketplace server.Please try again later.",
-      );
-      console.error(err);
-    } finally {
-      setIsLoading(false);
-    }
+  // Filters live in the home page's query string so views can be shared.
+  // The last home query is kept while other pages are open so the feed
+  // isn't refetched when coming back to it.
+  const [homeSearch, setHomeSearch] = useState(
+    route.page === "home" ? location.search : "",
+  );
+  useEffect(() => {
+    if (route.page === "home") setHomeSearch(location.search);
+  }, [route.page, location.search]);
+  const filtersSearch = route.page === "home" ? location.search : homeSearch;
+  const filters = useMemo(
+    () => filtersFromSearch(filtersSearch),
+    [filtersSearch],
+  );
+  const updateFilters = (changes: Partial<BrowseFilters>) => {
+    navigate(paths.home() + filtersToSearch({ ...filters, ...changes }), {
+      replace: true,
+    });
   };
+  const debouncedFilters = useDebouncedValue(filters, 300);
+
+  // Units page: codes from the link, else the ones this device last used
+  const unitCodes = useMemo(() => {
+    if (route.page !== "units") return [];
+    const fromUrl = parseUnitCodes(
+      new URLSearchParams(location.search).get("codes") ?? "",
+    );
+    return fromUrl.length > 0 ? fromUrl : getMyUnits();
+  }, [route.page, location.search]);
 
+  const feedQuery = useMemo(
+    () => filtersToQuery(debouncedFilters),
+    [debouncedFilters],
+  );
+  const feed = useProductFeed(feedQuery);
+  const { setProducts } = feed;
+
+  const openProductId =
+    route.page === "product-detail" || route.page === "edit"
+      ? route.productId
+      : null;
+  const {
+    product: selectedProduct,
+    setProduct: setSelectedProduct,
+    isLoading: isProductLoading,
+  } = useProduct(
+    openProductId,
+    feed.products.find((p) => p.id === openProductId),
+  );
+
+  // Sync session to storage for persistence across reloads
   useEffect(() => {
-    loadProducts();
+    saveSession(session);
+  }, [session]);
+
+  // An expired or revoked token sends the user back to sign in
+  useEffect(() => {
+    setUnauthorizedHandler(() => {
+      setSession(null);
+      navigate(paths.login());
+    });
+    return () => setUnauthorizedHandler(null);
   }, []);
 
-  // Sync user to storage for session persistence
+  // Refused actions (403) keep the session but say why
+  const [forbiddenMessage, setForbiddenMessage] = useState<string | null>(null);
   useEffect(() => {
-    saveUser(user);
-  }, [user]);
-
-  // Derived state
-  const filteredProducts = useMemo(() => {
-    return products
-      .filter((p) => !p.isSold || currentPage === "dashboard")
-      .filter((p) => {
-        const title = p.title || "";
-        const description = p.description || "";
-        const matchesSearch =
-          title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          description.toLowerCase().includes(searchQuery.toLowerCase());
-        const matchesCategory =
-          activeCategory === "All" || p.category === activeCategory;
-        return matchesSearch && matchesCategory;
-      });
-  }, [products, searchQuery, activeCategory, currentPage]);
+    setForbiddenHandler(setForbiddenMessage);
+    return () => setForbiddenHandler(null);
+  }, []);
+  useEffect(() => {
+    setForbiddenMessage(null);
+  }, [location.pathname]);
+
+  const unreadMessages = useUnreadMessages(user?.id ?? null);
+  const notifications = useNotifications(user?.id ?? null);
+  const watchlist = useWatchlist(user?.id ?? null, notifications.add);
+  const savedSearches = useSavedSearches(user?.id ?? null, notifications.add);
+  useExpiryReminders(user?.id ?? null, notifications.add);
+  const categories = useCategories();
+  const isOnline = useOnlineStatus();
+  const outbox = useOutbox(user?.id ?? null, feed.reload);
+
+  const handleLogin = (newSession: AuthSession) => {
+    // Persist immediately so requests made right after login carry the token
+    saveSession(newSession);
+    setSession(newSession);
+  };
+
+  // Applies profile changes to the session. Verifying through a magic link
+  // may happen in a signed-out tab, or for another account.
+  const updateSessionUser = (updated: User) => {
+    setSession((prev) =>
+      prev && prev.user.id === updated.id ? { ...prev, user: updated } : prev,
+    );
+  };
+
+  // The stored session holds the user as they were at sign-in (sessions from
+  // before email verification don't even say whether it's verified), so the
+  // profile is fetched again once per load
+  const [isProfileFresh, setIsProfileFresh] = useState(false);
+  useEffect(() => {
+    if (!user) return;
+    let ignore = false;
+    authService.getProfileByEmail(user.email).then((fresh) => {
+      if (ignore) return;
+      if (fresh) updateSessionUser(fresh);
+      setIsProfileFresh(true);
+    });
+    return () => {
+      ignore = true;
+    };
+  }, [user?.id]);
+
+  const handleAccountDeleted = async () => {
+    const userId = user!.id;
+    clearUserData(userId);
+    await offlineStore.clearOutbox(userId);
+    setSession(null);
+    navigate(paths.home());
+  };
 
   const handleLogout = () => {
-    setUser(null);
-    setCurrentPage("home");
+    setSession(null);
+    navigate(paths.home());
   };
 
   const navigateToProduct = (id: string) => {
-    setSelectedProductId(id);
-    setCurrentPage("product-detail");
-    window.scrollTo(0, 0);
+    navigate(paths.product(id));
   };
 
-  const handleMarkAsSold = async (id: string) => {
-    const success = await productService.markAsSold(id);
-    if (success) {
-      setProducts((prev) =>
-        prev.map((p) => (p.id === id ? { ...p, isSold: true } : p)),
-      );
+  // Shows a listing changed by an action (status change, accepted offer) in
+  // the feed and on the detail page. It drops out of the feed when the
+  // feed's status filter excludes its new status.
+  const replaceListing = (updated: Product) => {
+    const shown = filtersToQuery(filters).statuses ?? ACTIVE_STATUSES;
+    setProducts((prev) =>
+      shown.includes(updated.status)
+        ? prev.map((p) => (p.id === updated.id ? updated : p))
+        : prev.filter((p) => p.id !== updated.id),
+    );
+    setSelectedProduct((prev) =>
+      prev && prev.id === updated.id ? updated : prev,
+    );
+  };
+
+  const handleStatusChange = async (
+    id: string,
+    status: ListingStatus,
+    buyer: SoldTo = null,
+  ) => {
+    const updated = await productService.setStatus(id, status, buyer);
+    if (!updated) return false;
+    replaceListing(updated);
+    return true;
+  };
+
+  const handleSaveSearch = () => {
+    const suggested =
+      filters.search ||
+      (filters.category !== "All" ? filters.category : "My search");
+    const name = prompt("Name this search:", suggested);
+    if (!name?.trim()) return;
+    // Saved without sort order; matches are always checked newest first
+    savedSearches.save(name.trim(), { ...filters, sort: "newest" });
+    alert(
+      `Saved. We'll notify you about new listings matching "${name.trim()}".`,
+    );
+  };
+
+  const handleToggleSave = async (product: Product) => {
+    if (!user) {
+      navigate(paths.login());
+      return;
     }
+    const ok = await watchlist.toggle(product);
+    if (!ok) alert("Couldn't update your saved items. Please try again.");
+  };
+
+  // Sellers can't save their own listings
+  const saveProps = (product: Product) =>
+    user?.id === product.userId
+      ? {}
+      : {
+          isSaved: watchlist.isSaved(product.id),
+          onToggleSave: () => handleToggleSave(product),
+        };
+
+  const handleMessageSeller = async (product: Product) => {
+    if (!user) {
+      navigate(paths.login());
+      return;
+    }
+    const conversation = await chatService.getOrCreateConversation(
+      product,
+      user,
+    );
+    if (conversation) navigate(paths.conversation(conversation.id));
+    else alert("Couldn't start a conversation. Please try again.");
   };
 
   const handleDeleteProduct = async (id: string) => {
@@ -87,59 +333,38 @@ const App: React.FC = () => {
       const success = await productService.delete(id);
       if (success) {
         setProducts((prev) => prev.filter((p) => p.id !== id));
-        if (currentPage === "product-detail") setCurrentPage("dashboard");
+        if (route.page === "product-detail") navigate(paths.dashboard());
       }
     }
   };
 
   const renderPage = () => {
-    if (isLoading && currentPage === "home") {
-      return (
-        <div className="flex flex-col items-center justify-center py-40">
-          <div className="spinner mb-4"></div>
-          <p className="text-gray-500 font-medium">
-            Loading listings please wait...
-          </p>
-        </div>
-      );
+    if (isProductLoading && openProductId) {
+      return <LoadingState message="Loading listing please wait..." />;
     }
 
-    if (error && currentPage === "home") {
+    // Signed-out visitors see the login form in place; the URL is kept so the
+    // requested page renders as soon as they sign in.
+    if (
+      !user &&
+      (route.page === "create" ||
+        route.page === "edit" ||
+        route.page === "dashboard" ||
+        route.page === "settings" ||
+        route.page === "inbox" ||
+        route.page === "saved" ||
+        route.page === "moderation" ||
+        route.page === "admin")
+    ) {
       return (
-        <div className="container mx-auto px-4 py-20 text-center">
-          <div className="max-w-md mx-auto bg-red-50 border border-red-100 p-8 rounded-2xl shadow-sm">
-            <div className="bg-red-100 w-12 h-12 rounded-full flex items-center justify-center mx-auto mb-4">
-              <svg
-                xmlns="http://www.w3.org/2000/svg"
-                className="h-6 w-6 text-red-600"
-                fill="none"
-                viewBox="0 0 24 24"
-                stroke="currentColor"
-              >
-                <path
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  strokeWidth={2}
-                  d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"
-                />
-              </svg>
-            </div>
-            <h2 className="text-xl font-bold text-red-800 mb-2">
-              Connection Error
-            </h2>
-            <p className="text-red-600 mb-6 text-sm">{error}</p>
-            <button
-              onClick={loadProducts}
-              className="bg-red-600 text-white px-6 py-2 rounded-lg font-bold hover:bg-red-700 transition-colors"
-            >
-              Try Again
-            </button>
-          </div>
-        </div>
+        <LoginPage
+          onLogin={handleLogin}
+          onSwitch={() => navigate(paths.register())}
+        />
       );
     }
 
-    switch (currentPage) {
+    switch (route.page) {
       case "home":
         return (
           <div className="container mx-auto px-4 py-8">
@@ -158,8 +383,8 @@ const App: React.FC = () => {
                     type="text"
                     placeholder="Search for books, laptops, hoodies..."
                     className="w-full pl-12 pr-4 py-3 rounded-xl border-2 border-gray-200 focus:border-[#044414] focus:outline-none transition-all shadow-sm"
-                    value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
+                    value={filters.search}
+                    onChange={(e) => updateFilters({ search: e.target.value })}
                   />
                   <div className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-400">
                     <svg
@@ -181,12 +406,15 @@ const App: React.FC = () => {
               </div>
 
               <div className="mt-6 flex flex-wrap justify-center gap-2">
-                {["All", ...Object.values(Category)].map((cat) => (
+                {(["All", ...Object.values(Category)] as const).map((cat) => (
                   <button
                     key={cat}
-                    onClick={() => setActiveCategory(cat)}
+                    // Attribute filters belong to the previous category
+                    onClick={() =>
+                      updateFilters({ category: cat, attributes: {} })
+                    }
                     className={`px-4 py-2 rounded-full text-sm font-medium transition-all ${
-                      activeCategory === cat
+                      filters.category === cat
                         ? "bg-[#044414] text-white shadow-lg"
                         : "bg-white text-gray-600 border border-gray-200 hover:border-gray-300"
                     }`}
@@ -195,43 +423,74 @@ const App: React.FC = () => {
                   </button>
                 ))}
               </div>
+
+              <BrowseFilterBar filters={filters} onChange={updateFilters} />
+              {user && hasActiveFilters(filters) && (
+                <button
+                  onClick={handleSaveSearch}
+                  className="mt-4 text-sm font-bold text-[#044414] underline"
+                >
+                  Save this search
+                </button>
+              )}
+              <button
+                onClick={() => navigate(paths.units(getMyUnits()))}
+                className="mt-4 ml-4 text-sm font-bold text-[#044414] underline"
+              >
+                Textbooks for my units
+              </button>
             </header>
 
-            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
-              {filteredProducts.map((product) => (
-                <ProductCard
-                  key={product.id}
-                  product={product}
-                  onClick={() => navigateToProduct(product.id)}
+            {feed.isStale && !feed.isLoading && (
+              <StaleFeedBanner
+                savedAt={feed.staleSince!}
+                onRetry={feed.reload}
+              />
+            )}
+
+            {feed.isLoading ? (
+              <LoadingState message="Loading listings please wait..." />
+            ) : feed.error ? (
+              <ConnectionError message={feed.error} onRetry={feed.reload} />
+            ) : (
+              <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
+                {feed.products.map((product) => (
+                  <ProductCard
+                    key={product.id}
+                    product={product}
+                    onClick={() => navigateToProduct(product.id)}
+                    {...saveProps(product)}
+                  />
+                ))}
+                {feed.products.length === 0 && (
+                  <div className="col-span-full py-20 text-center text-gray-500">
+                    <p className="text-xl">
+                      No products found matching your search.
+                    </p>
+                    <button
+                      onClick={() => navigate(paths.home(), { replace: true })}
+                      className="mt-4 text-[#044414] font-bold underline"
+                    >
+                      Clear all filters
+                    </button>
+                  </div>
+                )}
+                <FeedFooter
+                  feed={feed}
+                  endMessage="You've seen every listing."
                 />
-              ))}
-              {!isLoading && filteredProducts.length === 0 && (
-                <div className="col-span-full py-20 text-center text-gray-500">
-                  <p className="text-xl">
-                    No products found matching your search.
-                  </p>
-                  <button
-                    onClick={() => {
-                      setSearchQuery("");
-                      setActiveCategory("All");
-                    }}
-                    className="mt-4 text-[#044414] font-bold underline"
-                  >
-                    Clear all filters
-                  </button>
-                </div>
-              )}
-            </div>
+              </div>
+            )}
           </div>
         );
       case "login":
         return (
           <LoginPage
             onLogin={(u) => {
-              setUser(u);
-              setCurrentPage("home");
+              handleLogin(u);
+              navigate(paths.home());
             }}
-            onSwitch={() => setCurrentPage("register")}
+            onSwitch={() => navigate(paths.register())}
           />
         );
 
@@ -239,62 +498,326 @@ const App: React.FC = () => {
         return (
           <RegisterPage
             onRegister={(u) => {
-              setUser(u);
-              setCurrentPage("home");
+              handleLogin(u);
+              navigate(paths.verifyEmail());
             }}
-            onSwitch={() => setCurrentPage("login")}
+            onSwitch={() => navigate(paths.login())}
+          />
+        );
+
+      case "verify-email": {
+        const token = new URLSearchParams(location.search).get("token");
+        // The magic link works signed out; typing a code needs a session
+        if (!token && !user)
+          return (
+            <LoginPage
+              onLogin={handleLogin}
+              onSwitch={() => navigate(paths.register())}
+            />
+          );
+        return (
+          <VerifyEmailPage
+            key={token ?? "code"}
+            user={user}
+            token={token}
+            onVerified={updateSessionUser}
+          />
+        );
+      }
+
+      case "forgot-password":
+        return <ForgotPasswordPage />;
+
+      case "reset-password":
+        return (
+          <ResetPasswordPage
+            token={new URLSearchParams(location.search).get("token")}
           />
         );
 
       case "create":
+        if (!user!.emailVerified && !isProfileFresh)
+          return <LoadingState message="Checking your account..." />;
+        if (!user!.emailVerified)
+          return (
+            <VerifyEmailPage
+              user={user}
+              token={null}
+              onVerified={updateSessionUser}
+            />
+          );
+        if (authService.isSuspended(user!))
+          return (
+            <NotFoundPage
+              title="Account suspended"
+              message={`You can't post listings until ${new Date(user!.suspendedUntil!).toLocaleDateString()}.`}
+            />
+          );
         return (
           <CreateListingPage
+            key="new"
             user={user!}
-            onCreated={async (p) => {
-              setIsLoading(true);
-              const result = await productService.create(p, user!);
-              if (result) {
-                await loadProducts();
-                setCurrentPage("home");
+            categories={categories.enabledCategories}
+            onSubmit={async (p) => {
+              const listing: OutboxEntry["payload"] = {
+                title: p.title,
+                description: p.description,
+                price: p.price,
+                isFirmPrice: p.isFirmPrice,
+                category: p.category,
+                condition: p.condition,
+                attributes: p.attributes,
+                unitCodes: p.unitCodes,
+                allowWhatsapp: p.allowWhatsapp,
+                images: p.images,
+              };
+              // Listings that can't reach the server wait in the outbox and
+              // post themselves later
+              const outcome = navigator.onLine
+                ? await productService.create(listing)
+                : "unreachable";
+              if (outcome === "created") {
+                feed.reload();
+                navigate(paths.home());
+              } else if (outcome === "rejected") {
+                alert(
+                  "The server rejected this listing. Please check the details and try again.",
+                );
+              } else if (await outbox.enqueue(listing)) {
+                navigate(paths.home());
+              } else {
+                alert("Could not save your listing on this device.");
               }
-              setIsLoading(false);
             }}
           />
         );
 
-      case "product-detail":
-        const selectedProduct = products.find(
-          (p) => p.id === selectedProductId,
+      case "edit": {
+        const editedProduct = selectedProduct;
+        // Only the seller may edit; everyone else gets the same 404 as a
+        // missing listing rather than a hint that it exists
+        if (!editedProduct || editedProduct.userId !== user?.id)
+          return (
+            <NotFoundPage
+              title="Listing not found"
+              message="This item may have been deleted by its seller."
+            />
+          );
+        return (
+          <CreateListingPage
+            key={editedProduct.id}
+            user={user!}
+            product={editedProduct}
+            categories={categories.enabledCategories}
+            onSubmit={async (p) => {
+              const result = await productService.update(editedProduct.id, {
+                title: p.title,
+                description: p.description,
+                price: p.price,
+                isFirmPrice: p.isFirmPrice,
+                category: p.category,
+                condition: p.condition,
+                attributes: p.attributes,
+                unitCodes: p.unitCodes,
+                allowWhatsapp: p.allowWhatsapp,
+                existingImages: p.existingImages,
+                newImages: p.images,
+              });
+              if (result) {
+                // The detail page keeps the same id, so refresh it here
+                const fresh = await productService
+                  .fetchById(editedProduct.id)
+                  .catch(() => null);
+                if (fresh) setSelectedProduct(fresh);
+                feed.reload();
+                navigate(paths.product(editedProduct.id));
+              } else {
+                // The form stays filled in so the seller can try again
+                alert("Couldn't save your changes. Please try again.");
+              }
+            }}
+          />
         );
+      }
+
+      case "product-detail": {
         if (!selectedProduct)
-          return <div className="p-20 text-center">Product not found.</div>;
+          return (
+            <NotFoundPage
+              title="Listing not found"
+              message="This item may have been deleted by its seller."
+            />
+          );
+        // Reported listings stay visible to their seller and to moderators
+        if (
+          selectedProduct.isHidden &&
+          user?.id !== selectedProduct.userId &&
+          !authService.hasRole(user, UserRole.Moderator)
+        )
+          return (
+            <NotFoundPage
+              title="Listing under review"
+              message="This item was reported and is hidden until a moderator reviews it."
+            />
+          );
+        if (
+          selectedProduct.status === ListingStatus.Withdrawn &&
+          user?.id !== selectedProduct.userId
+        )
+          return (
+            <NotFoundPage
+              title="Listing withdrawn"
+              message="The seller has taken this item off the marketplace."
+            />
+          );
         return (
           <ProductDetailPage
             product={selectedProduct}
+            user={user}
             isOwner={user?.id === selectedProduct.userId}
-            onMarkAsSold={handleMarkAsSold}
+            onStatusChange={handleStatusChange}
+            onListingUpdated={replaceListing}
+            onEdit={(id) => navigate(paths.editProduct(id))}
             onDelete={handleDeleteProduct}
-            onBack={() => setCurrentPage("home")}
+            onMessageSeller={() => handleMessageSeller(selectedProduct)}
+            isSaved={watchlist.isSaved(selectedProduct.id)}
+            onToggleSave={() => handleToggleSave(selectedProduct)}
+            onViewSeller={() => navigate(paths.seller(selectedProduct.userId))}
+            onBack={() => navigate(paths.home())}
+          />
+        );
+      }
+
+      case "admin":
+        if (!authService.hasRole(user, UserRole.Admin)) return <NotFoundPage />;
+        return (
+          <AdminPage
+            currentUserId={user!.id}
+            categorySettings={categories.settings}
+            onToggleCategory={categories.setEnabled}
+          />
+        );
+
+      case "moderation":
+        if (!authService.hasRole(user, UserRole.Moderator))
+          return <NotFoundPage />;
+        return <ModerationPage onProductClick={navigateToProduct} />;
+
+      case "units":
+        return (
+          <UnitsPage
+            codes={unitCodes}
+            onChangeCodes={(codes) => {
+              saveMyUnits(codes);
+              navigate(paths.units(codes), { replace: true });
+            }}
+            onProductClick={navigateToProduct}
+            saveProps={saveProps}
+          />
+        );
+
+      case "seller":
+        return (
+          <SellerProfilePage
+            key={route.userId}
+            userId={route.userId}
+            onProductClick={navigateToProduct}
+            saveProps={saveProps}
           />
         );
 
       case "dashboard":
         return (
-          <DashboardPage
+          <DashboardPage user={user!} onProductClick={navigateToProduct} />
+        );
+
+      case "settings":
+        return (
+          <SettingsPage
             user={user!}
-            products={products.filter((p) => p.userId === user?.id)}
+            onProfileSaved={updateSessionUser}
+            onAccountDeleted={handleAccountDeleted}
+          />
+        );
+
+      case "saved":
+        return (
+          <SavedPage
+            favorites={watchlist.favorites}
+            isLoading={watchlist.isLoading}
+            error={watchlist.error}
+            onRetry={watchlist.reload}
             onProductClick={navigateToProduct}
+            onToggleSave={handleToggleSave}
+            searches={savedSearches.searches}
+            onOpenSearch={(search) => {
+              savedSearches.markVisited(search.id);
+              navigate(paths.home() + filtersToSearch(search.filters));
+            }}
+            onRemoveSearch={savedSearches.remove}
+          />
+        );
+
+      case "inbox":
+        return (
+          <InboxPage
+            user={user!}
+            conversationId={route.conversationId}
+            unreadCounts={unreadMessages.counts}
+            onConversationRead={unreadMessages.markConversationRead}
           />
         );
 
-      default:
-        return <div>Page not found</div>;
+      case "not-found":
+        return <NotFoundPage />;
     }
   };
 
   return (
     <div className="min-h-screen flex flex-col">
-      <Navbar user={user} onLogout={handleLogout} onNavigate={setCurrentPage} />
+      <Navbar
+        user={user}
+        canModerate={authService.hasRole(user, UserRole.Moderator)}
+        isAdmin={authService.hasRole(user, UserRole.Admin)}
+        unreadMessages={unreadMessages.total}
+        newSearchMatches={savedSearches.totalNew}
+        notifications={notifications.notifications}
+        unreadNotifications={notifications.unreadCount}
+        onOpenNotifications={notifications.markAllRead}
+        onSelectNotification={(n) =>
+          navigate(
+            n.kind === "expiring" || n.kind === "expired"
+              ? paths.dashboard()
+              : paths.product(n.productId),
+          )
+        }
+        onClearNotifications={notifications.clear}
+        onLogout={handleLogout}
+        onNavigate={navigate}
+      />
+      <OfflineStatusBar
+        isOnline={isOnline}
+        pending={outbox.pending}
+        isPosting={outbox.isFlushing}
+        onRetry={() => outbox.flush(true)}
+        onDiscard={outbox.discard}
+      />
+      {forbiddenMessage && (
+        <div className="bg-red-50 border-b border-red-100 text-red-800 text-sm">
+          <div className="container mx-auto px-4 py-2 flex items-center justify-between gap-4">
+            <p>
+              <span className="font-bold">Not allowed:</span> {forbiddenMessage}
+            </p>
+            <button
+              onClick={() => setForbiddenMessage(null)}
+              className="font-bold hover:text-red-950"
+              aria-label="Dismiss"
+            >
+              ×
+            </button>
+          </div>
+        </div>
+      )}
       <main className="flex-grow pb-12">{renderPage()}</main>
       <footer className="bg-gray-900 text-white py-8">
         <div className="container mx-auto px-4 flex flex-col md:flex-row justify-between items-center gap-6">
@@ -322,7 +845,7 @@ const App: React.FC = () => {
           </p>
           <div className="flex gap-4">
             <button
-              onClick={() => setCurrentPage("requirements")}
+              onClick={() => navigate("/requirements")}
               className="text-gray-400 hover:text-white transition-colors"
             >
               Requirements
@@ -342,234 +865,439 @@ const App: React.FC = () => {
 
 // --- SUB-PAGES COMPONENTS ---
 
-const LoginPage: React.FC<{
-  onLogin: (u: User) => void;
-  onSwitch: () => void;
-}> = ({ onLogin, onSwitch }) => {
-  const [email, setEmail] = useState("");
-  const [password, setPassword] = useState("");
-  const [error, setError] = useState("");
-  const [loading, setLoading] = useState(false);
-
-  const handleLogin = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setError("");
-    const normalizedEmail = email.toLowerCase().trim();
+const LoadingState: React.FC<{ message: string }> = ({ message }) => {
+  return (
+    <div className="flex flex-col items-center justify-center py-40">
+      <div className="spinner mb-4"></div>
+      <p className="text-gray-500 font-medium">{message}</p>
+    </div>
+  );
+};
 
-    if (!normalizedEmail.endsWith("@students.dkut.ac.ke")) {
-      setError("Please use a valid DeKUT student email");
-      return;
-    }
+const StaleFeedBanner: React.FC<{
+  savedAt: string;
+  onRetry: () => void;
+}> = ({ savedAt, onRetry }) => (
+  <div className="mb-6 flex flex-col sm:flex-row items-center justify-between gap-3 bg-yellow-50 border border-yellow-200 text-yellow-900 px-4 py-3 rounded-xl text-sm">
+    <span>
+      You're viewing listings saved on {new Date(savedAt).toLocaleString()}.
+      Prices and availability may have changed.
+    </span>
+    <button onClick={onRetry} className="font-bold underline whitespace-nowrap">
+      Try again
+    </button>
+  </div>
+);
 
-    setLoading(true);
-    try {
-      const profile = await authService.login(normalizedEmail, password);
-      if (profile) {
-        onLogin(profile);
-      } else {
-        setError("Invalid credentials or account does not exist.");
-      }
-    } catch (err) {
-      setError("Connection failed. Please try again later.");
-    } finally {
-      setLoading(false);
-    }
-  };
+// Connection state and listings waiting in the offline outbox
+const OfflineStatusBar: React.FC<{
+  isOnline: boolean;
+  pending: OutboxEntry[];
+  isPosting: boolean;
+  onRetry: () => void;
+  onDiscard: (id: string) => void;
+}> = ({ isOnline, pending, isPosting, onRetry, onDiscard }) => {
+  const failed = pending.filter((entry) => entry.lastError);
+  if (isOnline && pending.length === 0) return null;
 
   return (
-    <div className="max-w-md mx-auto mt-20 p-8 bg-white rounded-2xl shadow-xl border border-gray-100">
-      <h2 className="text-3xl font-bold text-[#044414] mb-2">Sign In</h2>
-      <p className="text-gray-500 mb-8">Login with your university email.</p>
+    <div className="bg-gray-800 text-white text-sm">
+      <div className="container mx-auto px-4 py-2 space-y-1">
+        {!isOnline && (
+          <p>
+            You're offline. You can keep browsing saved listings
+            {pending.length > 0 &&
+              `; ${pending.length} new listing${pending.length === 1 ? "" : "s"} will be posted when you're back online`}
+            .
+          </p>
+        )}
+        {isOnline && !isPosting && pending.length > failed.length && (
+          <p>
+            {pending.length - failed.length} listing
+            {pending.length - failed.length === 1 ? "" : "s"} couldn't reach the
+            server and will be posted automatically.
+          </p>
+        )}
+        {isOnline && isPosting && (
+          <p>
+            Posting {pending.length} listing
+            {pending.length === 1 ? "" : "s"} saved on this device...
+          </p>
+        )}
+        {isOnline &&
+          !isPosting &&
+          failed.map((entry) => (
+            <div
+              key={entry.id}
+              className="flex flex-wrap items-center gap-x-3 gap-y-1"
+            >
+              <span>
+                "{entry.payload.title}" couldn't be posted. {entry.lastError}
+              </span>
+              <button onClick={onRetry} className="font-bold text-yellow-400">
+                Retry
+              </button>
+              <button
+                onClick={() => onDiscard(entry.id)}
+                className="text-gray-300 hover:text-white"
+              >
+                Discard
+              </button>
+            </div>
+          ))}
+      </div>
+    </div>
+  );
+};
 
-      {error && (
-        <div className="bg-red-50 text-red-600 p-4 rounded-xl text-sm mb-6 font-semibold border border-red-100">
-          {error}
+const ConnectionError: React.FC<{
+  message: string;
+  onRetry: () => void;
+}> = ({ message, onRetry }) => {
+  return (
+    <div className="container mx-auto px-4 py-20 text-center">
+      <div className="max-w-md mx-auto bg-red-50 border border-red-100 p-8 rounded-2xl shadow-sm">
+        <div className="bg-red-100 w-12 h-12 rounded-full flex items-center justify-center mx-auto mb-4">
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            className="h-6 w-6 text-red-600"
+            fill="none"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"
+            />
+          </svg>
         </div>
-      )}
+        <h2 className="text-xl font-bold text-red-800 mb-2">
+          Connection Error
+        </h2>
+        <p className="text-red-600 mb-6 text-sm">{message}</p>
+        <button
+          onClick={onRetry}
+          className="bg-red-600 text-white px-6 py-2 rounded-lg font-bold hover:bg-red-700 transition-colors"
+        >
+          Try Again
+        </button>
+      </div>
+    </div>
+  );
+};
 
-      <form onSubmit={handleLogin} className="space-y-6">
+/**
+ * Input for one category attribute: a dropdown for select fields, otherwise
+ * a text or number box
+ * @param emptyLabel - Dropdown entry for "no value"
+ */
+const AttributeInput: React.FC<{
+  field: AttributeField;
+  value: string;
+  onChange: (value: string) => void;
+  emptyLabel: string;
+  disabled?: boolean;
+  className: string;
+}> = ({ field, value, onChange, emptyLabel, disabled, className }) =>
+  field.type === "select" ? (
+    <select
+      className={className}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={disabled}
+    >
+      <option value="">{emptyLabel}</option>
+      {field.options?.map((option) => (
+        <option key={option} value={option}>
+          {option}
+        </option>
+      ))}
+    </select>
+  ) : (
+    <input
+      type={field.type}
+      min={field.type === "number" ? 0 : undefined}
+      className={className}
+      value={value}
+      placeholder={field.placeholder}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={disabled}
+    />
+  );
+
+const BrowseFilterBar: React.FC<{
+  filters: BrowseFilters;
+  onChange: (changes: Partial<BrowseFilters>) => void;
+}> = ({ filters, onChange }) => {
+  const parsePriceInput = (value: string) =>
+    value.trim() === "" ? null : Math.max(0, Number(value));
+
+  const toggleCondition = (condition: Condition) => {
+    onChange({
+      conditions: filters.conditions.includes(condition)
+        ? filters.conditions.filter((c) => c !== condition)
+        : [...filters.conditions, condition],
+    });
+  };
+
+  const setAttribute = (key: string, value: string) => {
+    const { [key]: _previous, ...rest } = filters.attributes;
+    onChange({ attributes: value ? { ...rest, [key]: value } : rest });
+  };
+
+  const filterableFields = attributeFields(filters.category).filter(
+    (field) => field.filterable,
+  );
+
+  return (
+    <div className="mt-6 bg-white border border-gray-100 rounded-2xl p-4 shadow-sm text-left space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end">
         <div>
-          <label className="block text-sm font-semibold text-gray-700 mb-2">
-            Student Email
+          <label className="block text-xs font-semibold text-gray-500 mb-1">
+            Min price (KSh)
           </label>
           <input
-            type="email"
-            placeholder="john.doe@students.dkut.ac.ke"
-            className="w-full px-4 py-3 rounded-xl border border-gray-200 focus:ring-2 focus:ring-[#044414] focus:outline-none"
-            required
-            value={email}
-            onChange={(e) => setEmail(e.target.value)}
+            type="number"
+            min={0}
+            placeholder="0"
+            className="w-full px-3 py-2 rounded-lg border border-gray-200 focus:ring-2 focus:ring-[#044414] focus:outline-none text-sm"
+            value={filters.minPrice ?? ""}
+            onChange={(e) =>
+              onChange({ minPrice: parsePriceInput(e.target.value) })
+            }
           />
         </div>
         <div>
-          <label className="block text-sm font-semibold text-gray-700 mb-2">
-            Password
+          <label className="block text-xs font-semibold text-gray-500 mb-1">
+            Max price (KSh)
           </label>
           <input
-            type="password"
-            placeholder="••••••••"
-            className="w-full px-4 py-3 rounded-xl border border-gray-200 focus:ring-2 focus:ring-[#044414] focus:outline-none"
-            required
-            value={password}
-            onChange={(e) => setPassword(e.target.value)}
+            type="number"
+            min={0}
+            placeholder="Any"
+            className="w-full px-3 py-2 rounded-lg border border-gray-200 focus:ring-2 focus:ring-[#044414] focus:outline-none text-sm"
+            value={filters.maxPrice ?? ""}
+            onChange={(e) =>
+              onChange({ maxPrice: parsePriceInput(e.target.value) })
+            }
           />
         </div>
-        <button
-          type="submit"
-          disabled={loading}
-          className="w-full bg-[#044414] text-white py-3 rounded-xl font-bold hover:bg-green-900 transition-all shadow-lg flex items-center justify-center gap-2"
-        >
-          {loading && (
-            <div className="spinner border-white border-left-transparent w-4 h-4"></div>
-          )}
-          Sign In
-        </button>
-      </form>
-      <div className="mt-8 text-center pt-6 border-t border-gray-100">
-        <p className="text-gray-500">
-          No account?{" "}
+        <div>
+          <label className="block text-xs font-semibold text-gray-500 mb-1">
+            Sort by
+          </label>
+          <select
+            className="w-full px-3 py-2 rounded-lg border border-gray-200 focus:ring-2 focus:ring-[#044414] focus:outline-none text-sm"
+            value={filters.sort}
+            onChange={(e) =>
+              onChange({ sort: e.target.value as BrowseFilters["sort"] })
+            }
+          >
+            {SORT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-semibold text-gray-500 mb-1">
+            Status
+          </label>
+          <select
+            className="w-full px-3 py-2 rounded-lg border border-gray-200 focus:ring-2 focus:ring-[#044414] focus:outline-none text-sm"
+            value={filters.status}
+            onChange={(e) =>
+              onChange({ status: e.target.value as BrowseFilters["status"] })
+            }
+          >
+            {STATUS_FILTER_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+      {filterableFields.length > 0 && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end">
+          {filterableFields.map((field) => (
+            <div key={field.key}>
+              <label className="block text-xs font-semibold text-gray-500 mb-1">
+                {field.label}
+              </label>
+              <AttributeInput
+                field={field}
+                value={filters.attributes[field.key] ?? ""}
+                onChange={(value) => setAttribute(field.key, value)}
+                emptyLabel="Any"
+                className="w-full px-3 py-2 rounded-lg border border-gray-200 focus:ring-2 focus:ring-[#044414] focus:outline-none text-sm"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs font-semibold text-gray-500">Condition:</span>
+        {Object.values(Condition).map((condition) => (
           <button
-            onClick={onSwitch}
-            className="text-[#044414] font-bold hover:underline"
+            key={condition}
+            onClick={() => toggleCondition(condition)}
+            className={`px-3 py-1 rounded-full text-xs font-medium transition-all ${
+              filters.conditions.includes(condition)
+                ? "bg-[#044414] text-white"
+                : "bg-gray-50 text-gray-600 border border-gray-200 hover:border-gray-300"
+            }`}
           >
-            Create an account
+            {condition}
           </button>
+        ))}
+        {hasActiveFilters(filters) && (
+          <button
+            onClick={() => navigate(paths.home(), { replace: true })}
+            className="ml-auto text-xs text-[#044414] font-bold underline"
+          >
+            Reset filters
+          </button>
+        )}
+      </div>
+      {filters.minPrice !== null &&
+        filters.maxPrice !== null &&
+        filters.minPrice > filters.maxPrice && (
+          <p className="text-xs text-red-600">
+            Min price is higher than max price, so nothing will match.
+          </p>
+        )}
+    </div>
+  );
+};
+
+// Infinite-scroll trigger plus the loading / retry / end-of-list row shown
+// underneath a paginated product grid
+const FeedFooter: React.FC<{
+  feed: ReturnType<typeof useProductFeed>;
+  endMessage: string;
+}> = ({ feed, endMessage }) => {
+  if (feed.loadMoreFailed) {
+    return (
+      <div className="col-span-full py-6 text-center">
+        <button
+          onClick={feed.loadMore}
+          className="text-[#044414] font-bold underline"
+        >
+          Couldn't load more listings. Try again
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <InfiniteScrollSentinel
+        onVisible={feed.loadMore}
+        disabled={!feed.hasMore || feed.isLoadingMore}
+      />
+      {feed.isLoadingMore && (
+        <div className="col-span-full flex justify-center py-6">
+          <div className="spinner"></div>
+        </div>
+      )}
+      {!feed.hasMore && feed.products.length > 0 && (
+        <p className="col-span-full py-6 text-center text-sm text-gray-400">
+          {endMessage}
         </p>
+      )}
+    </>
+  );
+};
+
+const NotFoundPage: React.FC<{
+  title?: string;
+  message?: string;
+}> = ({
+  title = "Page not found",
+  message = "The page you're looking for doesn't exist or has moved.",
+}) => {
+  return (
+    <div className="container mx-auto px-4 py-20 text-center">
+      <div className="max-w-md mx-auto bg-white border border-gray-100 p-8 rounded-2xl shadow-sm">
+        <p className="text-6xl font-extrabold text-[#044414] mb-4">404</p>
+        <h2 className="text-xl font-bold text-gray-800 mb-2">{title}</h2>
+        <p className="text-gray-500 mb-6 text-sm">{message}</p>
+        <button
+          onClick={() => navigate(paths.home())}
+          className="bg-[#044414] text-white px-6 py-2 rounded-lg font-bold hover:bg-green-900 transition-colors"
+        >
+          Back to Marketplace
+        </button>
       </div>
     </div>
   );
 };
 
-const RegisterPage: React.FC<{
-  onRegister: (u: User) => void;
+const LoginPage: React.FC<{
+  onLogin: (session: AuthSession) => void;
   onSwitch: () => void;
-}> = ({ onRegister, onSwitch }) => {
-  const [formData, setFormData] = useState({
-    fullName: "",
-    email: "",
-    phone: "",
-    password: "",
-  });
+}> = ({ onLogin, onSwitch }) => {
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
   const [error, setError] = useState("");
   const [loading, setLoading] = useState(false);
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     setError("");
-    const normalizedEmail = formData.email.toLowerCase().trim();
+    const normalizedEmail = email.toLowerCase().trim();
 
     if (!normalizedEmail.endsWith("@students.dkut.ac.ke")) {
-      setError(
-        "Registration is restricted to @students.dkut.ac.ke emails only.",
-      );
-      return;
-    }
-
-    // Password validation: minimum 6 characters, must include letters and numbers
-    const pwd = formData.password;
-    const pwdRegex = /^(?=.*[A-Za-z])(?=.*\d).{6,}$/;
-    if (!pwdRegex.test(pwd)) {
-      setError(
-        "Password must be at least 6 characters and include letters and numbers.",
-      );
-      setLoading(false);
+      setError("Please use a valid DeKUT student email");
       return;
     }
 
     setLoading(true);
     try {
-      const existing = await authService.getProfileByEmail(normalizedEmail);
-      if (existing) {
-        setError("An account with this email already exists.");
-        setLoading(false);
-        return;
+      const session = await authService.login(normalizedEmail, password);
+      if (session && authService.isSuspended(session.user)) {
+        setError(
+          `Your account is suspended until ${new Date(session.user.suspendedUntil!).toLocaleDateString()}.`,
+        );
+      } else if (session) {
+        onLogin(session);
+      } else {
+        setError("Invalid credentials or account does not exist.");
       }
-
-      const newUser: User & { password?: string } = {
-        id: crypto.randomUUID(),
-        email: normalizedEmail,
-        fullName: formData.fullName,
-        phone: formData.phone.startsWith("0")
-          ? "254" + formData.phone.substring(1)
-          : formData.phone,
-        createdAt: new Date().toISOString(),
-        password: formData.password,
-      };
-
-      const success = await authService.upsertProfile(newUser);
-      if (success) {
-        const publicUser: User = {
-          id: newUser.id,
-          email: newUser.email,
-          fullName: newUser.fullName,
-          phone: newUser.phone,
-          createdAt: newUser.createdAt,
-        };
-        onRegister(publicUser);
-      } else setError("Could not save your profile. Please try again.");
     } catch (err) {
-      setError("Something went wrong.");
+      setError("Connection failed. Please try again later.");
     } finally {
       setLoading(false);
     }
   };
 
   return (
-    <div className="max-w-xl mx-auto mt-10 p-8 bg-white rounded-2xl shadow-xl border border-gray-100">
-      <h2 className="text-3xl font-bold text-[#044414] mb-2">Create Account</h2>
-      <p className="text-gray-500 mb-8">Join the marketplace community.</p>
+    <div className="max-w-md mx-auto mt-20 p-8 bg-white rounded-2xl shadow-xl border border-gray-100">
+      <h2 className="text-3xl font-bold text-[#044414] mb-2">Sign In</h2>
+      <p className="text-gray-500 mb-8">Login with your university email.</p>
+
       {error && (
-        <div className="bg-red-50 text-red-600 p-4 rounded-xl text-sm mb-6 border border-red-100">
+        <div className="bg-red-50 text-red-600 p-4 rounded-xl text-sm mb-6 font-semibold border border-red-100">
           {error}
         </div>
       )}
-      <form
-        onSubmit={handleSubmit}
-        className="grid grid-cols-1 md:grid-cols-2 gap-6"
-      >
-        <div className="md:col-span-2">
-          <label className="block text-sm font-semibold text-gray-700 mb-2">
-            Full Name
-          </label>
-          <input
-            type="text"
-            placeholder="Jane Doe"
-            className="w-full px-4 py-3 rounded-xl border border-gray-200 focus:ring-2 focus:ring-[#044414] focus:outline-none"
-            required
-            value={formData.fullName}
-            onChange={(e) =>
-              setFormData({ ...formData, fullName: e.target.value })
-            }
-          />
-        </div>
+
+      <form onSubmit={handleLogin} className="space-y-6">
         <div>
           <label className="block text-sm font-semibold text-gray-700 mb-2">
             Student Email
           </label>
           <input
             type="email"
-            placeholder="name@students.dkut.ac.ke"
-            className="w-full px-4 py-3 rounded-xl border border-gray-200 focus:ring-2 focus:ring-[#044414] focus:outline-none"
-            required
-            value={formData.email}
-            onChange={(e) =>
-              setFormData({ ...formData, email: e.target.value })
-            }
-          />
-        </div>
-        <div>
-          <label className="block text-sm font-semibold text-gray-700 mb-2">
-            WhatsApp Number
-          </label>
-          <input
-            type="tel"
-            placeholder="07xxxxxxxx"
+            placeholder="john.doe@students.dkut.ac.ke"
             className="w-full px-4 py-3 rounded-xl border border-gray-200 focus:ring-2 focus:ring-[#044414] focus:outline-none"
             required
-            value={formData.phone}
-            onChange={(e) =>
-              setFormData({ ...formData, phone: e.target.value })
-            }
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
           />
         </div>
         <div>
@@ -578,501 +1306,3862 @@ const RegisterPage: React.FC<{
           </label>
           <input
             type="password"
-            placeholder="At least 6 chars, include letters and numbers"
+            placeholder="••••••••"
             className="w-full px-4 py-3 rounded-xl border border-gray-200 focus:ring-2 focus:ring-[#044414] focus:outline-none"
             required
-            value={formData.password}
-            onChange={(e) =>
-              setFormData({ ...formData, password: e.target.value })
-            }
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
           />
         </div>
         <button
           type="submit"
           disabled={loading}
-          className="md:col-span-2 bg-[#044414] text-white py-3 rounded-xl font-bold hover:bg-green-900 transition-all flex items-center justify-center gap-2"
+          className="w-full bg-[#044414] text-white py-3 rounded-xl font-bold hover:bg-green-900 transition-all shadow-lg flex items-center justify-center gap-2"
         >
           {loading && (
             <div className="spinner border-white border-left-transparent w-4 h-4"></div>
           )}
-          Create Account
+          Sign In
+        </button>
+        <button
+          type="button"
+          onClick={() => navigate(paths.forgotPassword())}
+          className="w-full text-sm text-gray-500 hover:text-[#044414] hover:underline"
+        >
+          Forgot your password?
         </button>
       </form>
       <div className="mt-8 text-center pt-6 border-t border-gray-100">
         <p className="text-gray-500">
-          Already have an account?{" "}
+          No account?{" "}
           <button
             onClick={onSwitch}
             className="text-[#044414] font-bold hover:underline"
           >
-            Log in
+            Create an account
           </button>
         </p>
       </div>
     </div>
   );
 };
-const CreateListingPage: React.FC<{
-  user: User;
-  onCreated: (p: any) => void;
-}> = ({ onCreated }) => {
-  const [title, setTitle] = useState("");
-  const [description, setDescription] = useState("");
-  const [price, setPrice] = useState("");
-  const [category, setCategory] = useState<Category>(Category.Other);
-  const [condition, setCondition] = useState<Condition>(Condition.UsedGood);
-  const [isGenerating, setIsGenerating] = useState(false);
-  const [imageFiles, setImageFiles] = useState<File[]>([]);
-  const [isSubmitting, setIsSubmitting] = useState(false);
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = e.target.files;
-    if (!files || files.length === 0) return;
-    const incoming = Array.from(files);
-    setImageFiles((prev) => {
-      const combined = [...prev, ...incoming].slice(0, 3); // limit to 3
-      return combined;
-    });
-    // reset input so the same file can be selected again later
-    e.currentTarget.value = "";
-  };
+// Minimum 6 characters, must include letters and numbers
+const PASSWORD_PATTERN = /^(?=.*[A-Za-z])(?=.*\d).{6,}$/;
+const PASSWORD_HINT =
+  "Password must be at least 6 characters and include letters and numbers.";
 
-  const handleAIDescription = async () => {
-    if (!title) {
-      alert("Please enter a title first.");
-      return;
-    }
-    setIsGenerating(true);
-    const aiDesc = await generateProductDescription(title, category, condition);
-    setDescription(aiDesc);
-    setIsGenerating(false);
-  };
+// Local SMTP stand-in (e.g. Mailpit) where development emails can be read
+const DEV_MAILBOX_URL: string | undefined = import.meta.env
+  .VITE_DEV_MAILBOX_URL;
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+const DevMailboxLink: React.FC = () =>
+  import.meta.env.DEV && DEV_MAILBOX_URL ? (
+    <a
+      href={DEV_MAILBOX_URL}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="block mt-4 text-center text-xs text-gray-400 underline"
+    >
+      Open development mailbox
+    </a>
+  ) : null;
 
-    // Prevent double submission
-    if (isSubmitting) {
-      return;
+const VerifyEmailPage: React.FC<{
+  user: User | null;
+  // Magic-link token from the emailed link; null when entering a code
+  token: string | null;
+  onVerified: (user: User) => void;
+}> = ({ user, token, onVerified }) => {
+  const [code, setCode] = useState("");
+  const [status, setStatus] = useState<
+    "idle" | "verifying" | "verified" | "failed"
+  >(token ? "verifying" : "idle");
+  const [resent, setResent] = useState(false);
+
+  const confirm = async (proof: { code: string } | { token: string }) => {
+    setStatus("verifying");
+    const verified = await authService.confirmEmail(proof);
+    if (verified) {
+      onVerified(verified);
+      setStatus("verified");
+    } else {
+      setStatus("failed");
     }
+  };
 
-    setIsSubmitting(true);
+  // Magic-link tokens are single use; StrictMode runs effects twice in
+  // development, and a second attempt would report the link as invalid
+  const sentTokenRef = React.useRef<string | null>(null);
+  useEffect(() => {
+    if (!token || sentTokenRef.current === token) return;
+    sentTokenRef.current = token;
+    confirm({ token });
+  }, [token]);
 
-    try {
-      const newProductPayload = {
-        title,
-        description,
-        price: parseFloat(price),
-        category,
-        condition,
-        images: imageFiles.length > 0 ? imageFiles : [],
-      };
-      await onCreated(newProductPayload);
-    } finally {
-      setIsSubmitting(false);
-    }
+  const handleResend = async () => {
+    setResent(await authService.sendVerificationEmail());
   };
 
+  if (user?.emailVerified || status === "verified") {
+    return (
+      <div className="max-w-md mx-auto mt-20 p-8 bg-white rounded-2xl shadow-xl border border-gray-100 text-center">
+        <h2 className="text-3xl font-bold text-[#044414] mb-2">
+          Email verified
+        </h2>
+        <p className="text-gray-500 mb-8">You can now list items for sale.</p>
+        <button
+          onClick={() => navigate(user ? paths.create() : paths.login())}
+          className="bg-[#044414] text-white px-6 py-3 rounded-xl font-bold"
+        >
+          {user ? "Sell an item" : "Sign in"}
+        </button>
+      </div>
+    );
+  }
+
   return (
-    <div className="max-w-2xl mx-auto mt-10 p-8 bg-white rounded-2xl shadow-xl border border-gray-100">
-      <h2 className="text-3xl font-bold text-[#044414] mb-2">Sell an Item</h2>
-      <form onSubmit={handleSubmit} className="space-y-6">
-        <div>
-          <label className="block text-sm font-semibold text-gray-700 mb-2">
-            Product Title
-          </label>
+    <div className="max-w-md mx-auto mt-20 p-8 bg-white rounded-2xl shadow-xl border border-gray-100">
+      <h2 className="text-3xl font-bold text-[#044414] mb-2">
+        Verify your email
+      </h2>
+      <p className="text-gray-500 mb-8">
+        {user
+          ? `We sent a 6-digit code and a sign-in link to ${user.email}. Verify your address to start selling.`
+          : "Checking your link..."}
+      </p>
+
+      {status === "failed" && (
+        <div className="bg-red-50 text-red-600 p-4 rounded-xl text-sm mb-6 font-semibold border border-red-100">
+          {token
+            ? "This link is invalid or has expired. Sign in to request a new one."
+            : "That code is invalid or has expired."}
+        </div>
+      )}
+
+      {user && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            confirm({ code: code.trim() });
+          }}
+          className="space-y-6"
+        >
           <input
             type="text"
-            placeholder="e.g. MacBook Pro"
-            className="w-full px-4 py-3 rounded-xl border border-gray-200 focus:ring-2 focus:ring-[#044414] focus:outline-none"
-            required
-            value={title}
-            onChange={(e) => setTitle(e.target.value)}
-            disabled={isSubmitting}
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            maxLength={6}
+            placeholder="123456"
+            className="w-full px-4 py-3 rounded-xl border border-gray-200 focus:ring-2 focus:ring-[#044414] focus:outline-none text-center text-2xl tracking-widest"
+            value={code}
+            onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
           />
-        </div>
-        <div className="grid grid-cols-2 gap-4">
-          <div>
-            <label className="block text-sm font-semibold text-gray-700 mb-2">
-              Price (KSh)
-            </label>
+          <button
+            type="submit"
+            disabled={code.length !== 6 || status === "verifying"}
+            className="w-full bg-[#044414] text-white py-3 rounded-xl font-bold hover:bg-green-900 transition-all shadow-lg disabled:opacity-60"
+          >
+            {status === "verifying" ? "Verifying..." : "Verify"}
+          </button>
+          <button
+            type="button"
+            onClick={handleResend}
+            disabled={resent}
+            className="w-full text-sm text-gray-500 hover:text-[#044414] hover:underline disabled:no-underline"
+          >
+            {resent ? "Email sent. Check your inbox." : "Resend email"}
+          </button>
+        </form>
+      )}
+      <DevMailboxLink />
+    </div>
+  );
+};
+
+const ForgotPasswordPage: React.FC = () => {
+  const [email, setEmail] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setIsSending(true);
+    const ok = await authService.requestPasswordReset(
+      email.toLowerCase().trim(),
+    );
+    setIsSending(false);
+    if (ok) setSent(true);
+    else setError("Connection failed. Please try again later.");
+  };
+
+  return (
+    <div className="max-w-md mx-auto mt-20 p-8 bg-white rounded-2xl shadow-xl border border-gray-100">
+      <h2 className="text-3xl font-bold text-[#044414] mb-2">Reset password</h2>
+      {sent ? (
+        <p className="text-gray-500">
+          If an account exists for {email}, we've emailed a link to choose a new
+          password. The link expires after a short while.
+        </p>
+      ) : (
+        <>
+          <p className="text-gray-500 mb-8">
+            Enter your student email and we'll send you a reset link.
+          </p>
+          {error && (
+            <div className="bg-red-50 text-red-600 p-4 rounded-xl text-sm mb-6 font-semibold border border-red-100">
+              {error}
+            </div>
+          )}
+          <form onSubmit={handleSubmit} className="space-y-6">
             <input
-              type="number"
-              placeholder="e.g. 950"
+              type="email"
+              placeholder="john.doe@students.dkut.ac.ke"
               className="w-full px-4 py-3 rounded-xl border border-gray-200 focus:ring-2 focus:ring-[#044414] focus:outline-none"
               required
-              value={price}
-              onChange={(e) => setPrice(e.target.value)}
-              disabled={isSubmitting}
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
             />
-          </div>
-          <div>
-            <label className="block text-sm font-semibold text-gray-700 mb-2">
-              Category
-            </label>
-            <select
-              className="w-full px-4 py-3 rounded-xl border border-gray-200 focus:ring-2 focus:ring-[#044414] focus:outline-none"
-              value={category}
-              onChange={(e) => setCategory(e.target.value as Category)}
-              disabled={isSubmitting}
+            <button
+              type="submit"
+              disabled={isSending}
+              className="w-full bg-[#044414] text-white py-3 rounded-xl font-bold hover:bg-green-900 transition-all shadow-lg disabled:opacity-60"
             >
-              {Object.values(Category).map((cat) => (
-                <option key={cat} value={cat}>
-                  {cat}
-                </option>
-              ))}
-            </select>
-          </div>
-        </div>
-        <div>
-          <label className="block text-sm font-semibold text-gray-700 mb-2">
-            Condition
-          </label>
-          <select
-            className="w-full px-4 py-3 rounded-xl border border-gray-200 focus:ring-2 focus:ring-[#044414] focus:outline-none"
-            value={condition}
-            onChange={(e) => setCondition(e.target.value as Condition)}
-            disabled={isSubmitting}
+              {isSending ? "Sending..." : "Send reset link"}
+            </button>
+          </form>
+        </>
+      )}
+      <DevMailboxLink />
+    </div>
+  );
+};
+
+const ResetPasswordPage: React.FC<{ token: string | null }> = ({ token }) => {
+  const [password, setPassword] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [error, setError] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [done, setDone] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    if (!PASSWORD_PATTERN.test(password)) {
+      setError(PASSWORD_HINT);
+      return;
+    }
+    if (password !== confirmation) {
+      setError("Passwords don't match.");
+      return;
+    }
+    setIsSaving(true);
+    const ok = await authService.resetPassword(token!, password);
+    setIsSaving(false);
+    if (ok) setDone(true);
+    else setError("This reset link is invalid or has expired.");
+  };
+
+  if (!token)
+    return (
+      <NotFoundPage
+        title="Invalid reset link"
+        message="Open the link from your email, or request a new one."
+      />
+    );
+
+  return (
+    <div className="max-w-md mx-auto mt-20 p-8 bg-white rounded-2xl shadow-xl border border-gray-100">
+      <h2 className="text-3xl font-bold text-[#044414] mb-2">
+        Choose a new password
+      </h2>
+      {done ? (
+        <>
+          <p className="text-gray-500 mb-8">Your password has been changed.</p>
+          <button
+            onClick={() => navigate(paths.login())}
+            className="w-full bg-[#044414] text-white py-3 rounded-xl font-bold"
           >
-            {Object.values(Condition).map((cond) => (
-              <option key={cond} value={cond}>
-                {cond}
-              </option>
-            ))}
-          </select>
-        </div>
-        <div>
-          <div className="flex justify-between items-center mb-2">
-            <label className="block text-sm font-semibold text-gray-700">
-              Description
-            </label>
+            Sign in
+          </button>
+        </>
+      ) : (
+        <>
+          {error && (
+            <div className="bg-red-50 text-red-600 p-4 rounded-xl text-sm my-6 font-semibold border border-red-100">
+              {error}
+            </div>
+          )}
+          <form onSubmit={handleSubmit} className="space-y-6 mt-6">
+            <input
+              type="password"
+              placeholder="New password"
+              autoComplete="new-password"
+              className="w-full px-4 py-3 rounded-xl border border-gray-200 focus:ring-2 focus:ring-[#044414] focus:outline-none"
+              required
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+            <input
+              type="password"
+              placeholder="Repeat new password"
+              autoComplete="new-password"
+              className="w-full px-4 py-3 rounded-xl border border-gray-200 focus:ring-2 focus:ring-[#044414] focus:outline-none"
+              required
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+            />
             <button
-              type="button"
-              onClick={handleAIDescription}
-              disabled={isGenerating || isSubmitting}
-              className="text-xs font-bold text-[#044414] flex items-center gap-1 bg-green-50 px-3 py-1 rounded-full border border-green-100 disabled:opacity-50"
+              type="submit"
+              disabled={isSaving}
+              className="w-full bg-[#044414] text-white py-3 rounded-xl font-bold hover:bg-green-900 transition-all shadow-lg disabled:opacity-60"
             >
-              {isGenerating ? "Generating..." : "✨ AI Write"}
+              {isSaving ? "Saving..." : "Save password"}
             </button>
-          </div>
-          <textarea
-            rows={4}
-            className="w-full px-4 py-3 rounded-xl border border-gray-200 focus:ring-2 focus:ring-[#044414] focus:outline-none disabled:opacity-50"
+          </form>
+        </>
+      )}
+    </div>
+  );
+};
+
+const SettingsPage: React.FC<{
+  user: User;
+  onProfileSaved: (user: User) => void;
+  onAccountDeleted: () => void;
+}> = ({ user, onProfileSaved, onAccountDeleted }) => {
+  const [fullName, setFullName] = useState(user.fullName);
+  const [phone, setPhone] = useState(formatLocalPhone(user.phone));
+  const [profileMessage, setProfileMessage] = useState("");
+  const [isSavingProfile, setIsSavingProfile] = useState(false);
+
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [passwordMessage, setPasswordMessage] = useState("");
+  const [isSavingPassword, setIsSavingPassword] = useState(false);
+
+  const [deletePassword, setDeletePassword] = useState("");
+  const [listingsAction, setListingsAction] = useState<"delete" | "anonymize">(
+    "delete",
+  );
+  const [deleteError, setDeleteError] = useState("");
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const handleSaveProfile = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setProfileMessage("");
+    const e164 = toE164(phone);
+    if (!e164) {
+      setProfileMessage(PHONE_HINT);
+      return;
+    }
+    const updated: User = { ...user, fullName: fullName.trim(), phone: e164 };
+    setIsSavingProfile(true);
+    const ok = await authService.upsertProfile(updated);
+    setIsSavingProfile(false);
+    if (ok) {
+      onProfileSaved(updated);
+      setPhone(formatLocalPhone(e164));
+      setProfileMessage("Profile saved.");
+    } else {
+      setProfileMessage("Could not save your profile. Please try again.");
+    }
+  };
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setPasswordMessage("");
+    if (!PASSWORD_PATTERN.test(newPassword)) {
+      setPasswordMessage(PASSWORD_HINT);
+      return;
+    }
+    setIsSavingPassword(true);
+    const ok = await authService.changePassword(currentPassword, newPassword);
+    setIsSavingPassword(false);
+    if (ok) {
+      setCurrentPassword("");
+      setNewPassword("");
+      setPasswordMessage("Password changed.");
+    } else {
+      setPasswordMessage(
+        "Couldn't change your password. Check your current password and try again.",
+      );
+    }
+  };
+
+  const handleDelete = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setDeleteError("");
+    if (!confirm("Delete your account permanently? This can't be undone."))
+      return;
+    setIsDeleting(true);
+    const ok = await authService.deleteAccount(deletePassword, listingsAction);
+    setIsDeleting(false);
+    if (ok) onAccountDeleted();
+    else
+      setDeleteError(
+        "Couldn't delete your account. Check your password and try again.",
+      );
+  };
+
+  const inputClass =
+    "w-full px-4 py-3 rounded-xl border border-gray-200 focus:ring-2 focus:ring-[#044414] focus:outline-none";
+
+  return (
+    <div className="max-w-2xl mx-auto px-4 py-10 space-y-8">
+      <h1 className="text-3xl font-extrabold">Settings</h1>
+
+      <form
+        onSubmit={handleSaveProfile}
+        className="bg-white p-8 rounded-2xl shadow-sm space-y-4"
+      >
+        <h2 className="text-xl font-bold">Profile</h2>
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 mb-2">
+            Full Name
+          </label>
+          <input
+            type="text"
             required
-            value={description}
-            onChange={(e) => setDescription(e.target.value)}
-            disabled={isSubmitting}
-          ></textarea>
+            className={inputClass}
+            value={fullName}
+            onChange={(e) => setFullName(e.target.value)}
+          />
         </div>
         <div>
           <label className="block text-sm font-semibold text-gray-700 mb-2">
-            Photos (Max 3)
+            Phone Number
           </label>
-          <div className="grid grid-cols-3 gap-4">
-            {imageFiles.map((file, i) => (
-              <div
-                key={i}
-                className="aspect-square rounded-xl overflow-hidden relative group"
-              >
-                <img
-                  src={URL.createObjectURL(file)}
-                  className="w-full h-full object-cover"
-                />
-                <button
-                  type="button"
-                  onClick={() =>
-                    setImageFiles(imageFiles.filter((_, idx) => idx !== i))
-                  }
-                  disabled={isSubmitting}
-                  className="absolute top-1 right-1 bg-red-500 text-white rounded-full p-1 opacity-0 group-hover:opacity-100 transition-opacity disabled:opacity-30"
-                >
-                  X
-                </button>
-              </div>
-            ))}
-            {imageFiles.length < 3 && (
-              <label
-                className={`aspect-square rounded-xl border-2 border-dashed border-gray-300 flex flex-col items-center justify-center ${isSubmitting ? "cursor-not-allowed opacity-50" : "cursor-pointer"}`}
-              >
-                <span className="text-xs text-gray-400 font-medium">
-                  Add Photo
-                </span>
-                <input
-                  type="file"
-                  className="hidden"
-                  accept="image/*"
-                  multiple
-                  onChange={handleFileChange}
-                  disabled={isSubmitting}
-                />
-              </label>
-            )}
-          </div>
+          <input
+            type="tel"
+            required
+            className={inputClass}
+            value={phone}
+            onChange={(e) => setPhone(e.target.value)}
+          />
+          <p className="text-xs text-gray-400 mt-1">
+            Used for WhatsApp on listings where you've allowed it.
+          </p>
         </div>
+        <p className="text-sm text-gray-500">Email: {user.email}</p>
+        {profileMessage && (
+          <p className="text-sm font-semibold text-gray-700">
+            {profileMessage}
+          </p>
+        )}
         <button
           type="submit"
-          disabled={isSubmitting}
-          className="w-full bg-[#044414] text-white py-4 rounded-xl font-bold hover:bg-green-900 transition-all shadow-lg flex items-center justify-center gap-2 disabled:opacity-70 disabled:cursor-not-allowed"
+          disabled={isSavingProfile}
+          className="bg-[#044414] text-white px-6 py-3 rounded-xl font-bold disabled:opacity-60"
         >
-          {isSubmitting && (
-            <div className="spinner border-white border-left-transparent w-5 h-5"></div>
-          )}
-          {isSubmitting ? "Publishing..." : "Post Listing"}
+          {isSavingProfile ? "Saving..." : "Save profile"}
+        </button>
+      </form>
+
+      <form
+        onSubmit={handleChangePassword}
+        className="bg-white p-8 rounded-2xl shadow-sm space-y-4"
+      >
+        <h2 className="text-xl font-bold">Change password</h2>
+        <input
+          type="password"
+          required
+          placeholder="Current password"
+          autoComplete="current-password"
+          className={inputClass}
+          value={currentPassword}
+          onChange={(e) => setCurrentPassword(e.target.value)}
+        />
+        <input
+          type="password"
+          required
+          placeholder="New password"
+          autoComplete="new-password"
+          className={inputClass}
+          value={newPassword}
+          onChange={(e) => setNewPassword(e.target.value)}
+        />
+        {passwordMessage && (
+          <p className="text-sm font-semibold text-gray-700">
+            {passwordMessage}
+          </p>
+        )}
+        <button
+          type="submit"
+          disabled={isSavingPassword}
+          className="bg-[#044414] text-white px-6 py-3 rounded-xl font-bold disabled:opacity-60"
+        >
+          {isSavingPassword ? "Saving..." : "Change password"}
+        </button>
+      </form>
+
+      <form
+        onSubmit={handleDelete}
+        className="bg-white p-8 rounded-2xl shadow-sm border border-red-100 space-y-4"
+      >
+        <h2 className="text-xl font-bold text-red-700">Delete account</h2>
+        <p className="text-sm text-gray-600">
+          Your profile, messages and saved items are removed. Choose what
+          happens to your listings:
+        </p>
+        <label className="flex items-center gap-3 text-sm">
+          <input
+            type="radio"
+            name="listings"
+            checked={listingsAction === "delete"}
+            onChange={() => setListingsAction("delete")}
+            className="accent-red-600"
+          />
+          Delete all my listings
+        </label>
+        <label className="flex items-center gap-3 text-sm">
+          <input
+            type="radio"
+            name="listings"
+            checked={listingsAction === "anonymize"}
+            onChange={() => setListingsAction("anonymize")}
+            className="accent-red-600"
+          />
+          Keep my listings, with my name and number removed
+        </label>
+        <input
+          type="password"
+          required
+          placeholder="Confirm with your password"
+          autoComplete="current-password"
+          className={inputClass}
+          value={deletePassword}
+          onChange={(e) => setDeletePassword(e.target.value)}
+        />
+        {deleteError && (
+          <p className="text-sm font-semibold text-red-600">{deleteError}</p>
+        )}
+        <button
+          type="submit"
+          disabled={isDeleting}
+          className="bg-red-600 text-white px-6 py-3 rounded-xl font-bold disabled:opacity-60"
+        >
+          {isDeleting ? "Deleting..." : "Delete my account"}
         </button>
       </form>
     </div>
   );
 };
-const ProductDetailPage: React.FC<{
-  product: Product;
-  isOwner: boolean;
-  onMarkAsSold: (id: string) => void;
-  onDelete: (id: string) => void;
-  onBack: () => void;
-}> = ({ product, isOwner, onMarkAsSold, onDelete, onBack }) => {
-  const [activeImage, setActiveImage] = React.useState(0);
-  const whatsappLink = `https://wa.me/${product.sellerPhone}?text=Hi, I'm interested in your ${product.title}`;
 
-  // Validate and filter images array
-  const validImages = React.useMemo(() => {
-    if (!Array.isArray(product.images)) {
-      console.warn("Product.images is not an array:", product.images);
-      return [];
-    }
-    return product.images.filter(
-      (url) => typeof url === "string" && url.trim() !== "",
-    );
-  }, [product.images]);
+const RegisterPage: React.FC<{
+  onRegister: (session: AuthSession) => void;
+  onSwitch: () => void;
+}> = ({ onRegister, onSwitch }) => {
+  const [formData, setFormData] = useState({
+    fullName: "",
+    email: "",
+    phone: "",
+    password: "",
+  });
+  const [error, setError] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    const normalizedEmail = formData.email.toLowerCase().trim();
+
+    if (!normalizedEmail.endsWith("@students.dkut.ac.ke")) {
+      setError(
+        "Registration is restricted to @students.dkut.ac.ke emails only.",
+      );
+      return;
+    }
+
+    if (!PASSWORD_PATTERN.test(formData.password)) {
+      setError(PASSWORD_HINT);
+      setLoading(false);
+      return;
+    }
+
+    const phone = toE164(formData.phone);
+    if (!phone) {
+      setError(PHONE_HINT);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const existing = await authService.getProfileByEmail(normalizedEmail);
+      if (existing) {
+        setError("An account with this email already exists.");
+        setLoading(false);
+        return;
+      }
+
+      const newUser: User & { password?: string } = {
+        id: crypto.randomUUID(),
+        email: normalizedEmail,
+        fullName: formData.fullName,
+        phone,
+        role: UserRole.Student,
+        emailVerified: false,
+        suspendedUntil: null,
+        createdAt: new Date().toISOString(),
+        password: formData.password,
+      };
+
+      const success = await authService.upsertProfile(newUser);
+      if (success) {
+        // Sign in straight away to obtain a session token for the new account
+        const session = await authService.login(
+          newUser.email,
+          formData.password,
+        );
+        if (session) {
+          await authService.sendVerificationEmail();
+          onRegister(session);
+        } else setError("Account created. Please sign in to continue.");
+      } else setError("Could not save your profile. Please try again.");
+    } catch (err) {
+      setError("Something went wrong.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="max-w-xl mx-auto mt-10 p-8 bg-white rounded-2xl shadow-xl border border-gray-100">
+      <h2 className="text-3xl font-bold text-[#044414] mb-2">Create Account</h2>
+      <p className="text-gray-500 mb-8">Join the marketplace community.</p>
+      {error && (
+        <div className="bg-red-50 text-red-600 p-4 rounded-xl text-sm mb-6 border border-red-100">
+          {error}
+        </div>
+      )}
+      <form
+        onSubmit={handleSubmit}
+        className="grid grid-cols-1 md:grid-cols-2 gap-6"
+      >
+        <div className="md:col-span-2">
+          <label className="block text-sm font-semibold text-gray-700 mb-2">
+            Full Name
+          </label>
+          <input
+            type="text"
+            placeholder="Jane Doe"
+            className="w-full px-4 py-3 rounded-xl border border-gray-200 focus:ring-2 focus:ring-[#044414] focus:outline-none"
+            required
+            value={formData.fullName}
+            onChange={(e) =>
+              setFormData({ ...formData, fullName: e.target.value })
+            }
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 mb-2">
+            Student Email
+          </label>
+          <input
+            type="email"
+            placeholder="name@students.dkut.ac.ke"
+            className="w-full px-4 py-3 rounded-xl border border-gray-200 focus:ring-2 focus:ring-[#044414] focus:outline-none"
+            required
+            value={formData.email}
+            onChange={(e) =>
+              setFormData({ ...formData, email: e.target.value })
+            }
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 mb-2">
+            WhatsApp Number
+          </label>
+          <input
+            type="tel"
+            placeholder="07xxxxxxxx"
+            className="w-full px-4 py-3 rounded-xl border border-gray-200 focus:ring-2 focus:ring-[#044414] focus:outline-none"
+            required
+            value={formData.phone}
+            onChange={(e) =>
+              setFormData({ ...formData, phone: e.target.value })
+            }
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 mb-2">
+            Password
+          </label>
+          <input
+            type="password"
+            placeholder="At least 6 chars, include letters and numbers"
+            className="w-full px-4 py-3 rounded-xl border border-gray-200 focus:ring-2 focus:ring-[#044414] focus:outline-none"
+            required
+            value={formData.password}
+            onChange={(e) =>
+              setFormData({ ...formData, password: e.target.value })
+            }
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={loading}
+          className="md:col-span-2 bg-[#044414] text-white py-3 rounded-xl font-bold hover:bg-green-900 transition-all flex items-center justify-center gap-2"
+        >
+          {loading && (
+            <div className="spinner border-white border-left-transparent w-4 h-4"></div>
+          )}
+          Create Account
+        </button>
+      </form>
+      <div className="mt-8 text-center pt-6 border-t border-gray-100">
+        <p className="text-gray-500">
+          Already have an account?{" "}
+          <button
+            onClick={onSwitch}
+            className="text-[#044414] font-bold hover:underline"
+          >
+            Log in
+          </button>
+        </p>
+      </div>
+    </div>
+  );
+};
+const MAX_LISTING_IMAGES = 3;
+
+type SuggestedField = "title" | "category" | "condition" | "description";
+
+const SUGGESTED_FIELD_LABELS: Record<SuggestedField, string> = {
+  title: "Title",
+  category: "Category",
+  condition: "Condition",
+  description: "Description",
+};
+
+const PHOTO_ISSUE_LABELS: Record<PhotoIssueKind, string> = {
+  [PhotoIssueKind.Blurry]: "Blurry",
+  [PhotoIssueKind.Dark]: "Too dark",
+  [PhotoIssueKind.Stock]: "Looks like a stock image",
+  [PhotoIssueKind.Other]: "Check this photo",
+};
+
+/**
+ * Listing assistant suggestions on the listing form. Only suggestions that
+ * differ from what the seller has entered are offered, each accepted on its
+ * own; photo issues are advice only.
+ */
+const ListingSuggestionPanel: React.FC<{
+  suggestion: ListingSuggestion;
+  current: Record<SuggestedField, string>;
+  // Categories the listing can be moved to
+  categories: Category[];
+  // Photos left out because they couldn't be loaded
+  skippedPhotos: number[];
+  onAccept: (field: SuggestedField) => void;
+  onDismiss: () => void;
+}> = ({
+  suggestion,
+  current,
+  categories,
+  skippedPhotos,
+  onAccept,
+  onDismiss,
+}) => {
+  const fields = (Object.keys(SUGGESTED_FIELD_LABELS) as SuggestedField[])
+    .filter((field) => {
+      const value = suggestion[field];
+      if (!value || value === current[field]) return false;
+      return field !== "category" || categories.includes(value as Category);
+    })
+    .map((field) => ({ field, value: suggestion[field]! }));
+
+  return (
+    <div className="mt-3 bg-green-50 border border-green-100 rounded-xl p-4 space-y-3">
+      <div className="flex justify-between items-center">
+        <p className="text-sm font-bold text-[#044414]">
+          ✨ Suggestions from your photos
+        </p>
+        <button
+          type="button"
+          onClick={onDismiss}
+          className="text-xs text-gray-500 hover:text-gray-800"
+        >
+          Dismiss
+        </button>
+      </div>
+      {skippedPhotos.length > 0 && (
+        <p className="text-sm text-yellow-900">
+          {skippedPhotos.length === 1 ? "Photo" : "Photos"}{" "}
+          {skippedPhotos.join(", ")} couldn't be loaded, so the assistant didn't
+          see {skippedPhotos.length === 1 ? "it" : "them"}.
+        </p>
+      )}
+      {fields.length === 0 && suggestion.photoIssues.length === 0 && (
+        <p className="text-sm text-gray-600">
+          Your details already match your photos.
+        </p>
+      )}
+      {fields.map(({ field, value }) => (
+        <div
+          key={field}
+          className="flex items-start justify-between gap-3 bg-white rounded-lg p-3"
+        >
+          <div className="min-w-0">
+            <p className="text-xs font-semibold text-gray-500">
+              {SUGGESTED_FIELD_LABELS[field]}
+            </p>
+            <p className="text-sm text-gray-800 whitespace-pre-line">{value}</p>
+          </div>
+          <button
+            type="button"
+            onClick={() => onAccept(field)}
+            className="shrink-0 bg-[#044414] text-white text-xs font-bold px-3 py-1 rounded-full hover:bg-green-900"
+          >
+            Use
+          </button>
+        </div>
+      ))}
+      {suggestion.photoIssues.length > 0 && (
+        <ul className="space-y-1">
+          {suggestion.photoIssues.map((issue, i) => (
+            <li
+              key={i}
+              className="text-sm bg-yellow-50 border border-yellow-200 text-yellow-900 rounded-lg px-3 py-2"
+            >
+              <span className="font-semibold">
+                Photo {issue.photo}: {PHOTO_ISSUE_LABELS[issue.kind]}
+              </span>{" "}
+              – {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+const CreateListingPage: React.FC<{
+  user: User;
+  // When set, the form edits this listing instead of creating a new one
+  product?: Product;
+  // Categories currently accepting listings
+  categories: Category[];
+  // New photos in images; photos kept from the edited listing in existingImages
+  onSubmit: (
+    p: ListingInput & { images: File[]; existingImages: string[] },
+  ) => Promise<void>;
+}> = ({ product, categories, onSubmit }) => {
+  const isEditing = Boolean(product);
+  const [title, setTitle] = useState(product?.title ?? "");
+  const [description, setDescription] = useState(product?.description ?? "");
+  const [price, setPrice] = useState(product ? String(product.price) : "");
+  const [isFirmPrice, setIsFirmPrice] = useState(product?.isFirmPrice ?? false);
+  const [category, setCategory] = useState<Category>(
+    product?.category ??
+      (categories.includes(Category.Other) ? Category.Other : categories[0]),
+  );
+  // A listing keeps its category even if it no longer accepts new listings
+  const categoryOptions =
+    product && !categories.includes(product.category)
+      ? [product.category, ...categories]
+      : categories;
+  const [condition, setCondition] = useState<Condition>(
+    product?.condition ?? Condition.UsedGood,
+  );
+  // Values for every category tried on this form; only the selected
+  // category's fields are submitted
+  const [attributes, setAttributes] = useState<ListingAttributes>(
+    product?.attributes ?? {},
+  );
+  const [unitCodes, setUnitCodes] = useState<string[]>(
+    product?.unitCodes ?? [],
+  );
+  const canTagUnits = UNIT_TAGGED_CATEGORIES.includes(category);
+  // WhatsApp is opt-in; in-app messages are always available to buyers
+  const [allowWhatsapp, setAllowWhatsapp] = useState(
+    product?.allowWhatsapp ?? false,
+  );
+  const [isGenerating, setIsGenerating] = useState(false);
+  // Assistant suggestions still on offer; accepted ones are cleared
+  const [suggestion, setSuggestion] = useState<ListingSuggestion | null>(null);
+  const [isSuggesting, setIsSuggesting] = useState(false);
+  // Form positions of photos the assistant couldn't be shown
+  const [skippedPhotos, setSkippedPhotos] = useState<number[]>([]);
+  // Already-uploaded photos kept from the listing being edited
+  const [existingImages, setExistingImages] = useState<string[]>(
+    product?.images ?? [],
+  );
+  // New photos, already downscaled and re-encoded for upload
+  const [imageFiles, setImageFiles] = useState<
+    (CompressedImage & { previewUrl: string })[]
+  >([]);
+  const [isCompressing, setIsCompressing] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const remainingSlots =
+    MAX_LISTING_IMAGES - existingImages.length - imageFiles.length;
+
+  // Release preview object URLs when the form goes away
+  const previewUrlsRef = React.useRef<string[]>([]);
+  previewUrlsRef.current = imageFiles.map((image) => image.previewUrl);
+  useEffect(
+    () => () => previewUrlsRef.current.forEach(URL.revokeObjectURL),
+    [],
+  );
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    if (!files || files.length === 0) return;
+    const incoming = Array.from(files).slice(0, remainingSlots);
+    // reset input so the same file can be selected again later
+    e.currentTarget.value = "";
+
+    setIsCompressing(true);
+    try {
+      // One at a time to keep memory use low on phones
+      for (const file of incoming) {
+        const compressed = await compressImage(file);
+        setImageFiles((prev) =>
+          prev.length + existingImages.length < MAX_LISTING_IMAGES
+            ? [
+                ...prev,
+                {
+                  ...compressed,
+                  previewUrl: URL.createObjectURL(compressed.file),
+                },
+              ]
+            : prev,
+        );
+      }
+    } finally {
+      setIsCompressing(false);
+    }
+  };
+
+  const removeImageFile = (index: number) => {
+    URL.revokeObjectURL(imageFiles[index].previewUrl);
+    setImageFiles(imageFiles.filter((_, idx) => idx !== index));
+  };
+
+  const handleAIDescription = async () => {
+    if (!title) {
+      alert("Please enter a title first.");
+      return;
+    }
+    setIsGenerating(true);
+    const aiDesc = await generateProductDescription(title, category, condition);
+    setDescription(aiDesc);
+    setIsGenerating(false);
+  };
+
+  const handleSuggestFromPhotos = async () => {
+    setIsSuggesting(true);
+    try {
+      // Kept photos are downloaded again; any that fail (e.g. blocked by
+      // the storage host's CORS settings) are left out and listed
+      const existing = await Promise.all(
+        existingImages.map((url) =>
+          fetch(url)
+            .then((res) => (res.ok ? res.blob() : null))
+            .catch(() => null),
+        ),
+      );
+      const photos = [...existing, ...imageFiles.map((image) => image.file)]
+        .map((blob, index) => ({ blob, number: index + 1 }))
+        .filter((photo): photo is { blob: Blob; number: number } =>
+          Boolean(photo.blob),
+        );
+      const skipped = existing.flatMap((blob, index) =>
+        blob ? [] : [index + 1],
+      );
+      setSkippedPhotos(skipped);
+      if (photos.length === 0) {
+        alert("Couldn't load your photos. Please try again.");
+        return;
+      }
+
+      const result = await suggestListingFromImages(
+        photos.map((photo) => photo.blob),
+        { title, category, condition },
+      );
+      if (!result) {
+        alert("The assistant couldn't look at your photos. Please try again.");
+        return;
+      }
+      // Number issues by the photo's position on the form
+      setSuggestion({
+        ...result,
+        photoIssues: result.photoIssues.map((issue) => ({
+          ...issue,
+          photo: photos[issue.photo - 1].number,
+        })),
+      });
+    } finally {
+      setIsSuggesting(false);
+    }
+  };
+
+  const acceptSuggestion = (field: SuggestedField) => {
+    if (!suggestion) return;
+    if (field === "title" && suggestion.title) setTitle(suggestion.title);
+    if (field === "category" && suggestion.category)
+      setCategory(suggestion.category);
+    if (field === "condition" && suggestion.condition)
+      setCondition(suggestion.condition);
+    if (field === "description" && suggestion.description)
+      setDescription(suggestion.description);
+    setSuggestion({ ...suggestion, [field]: null });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Prevent double submission
+    if (isSubmitting) {
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const newProductPayload = {
+        title,
+        description,
+        price: parseFloat(price),
+        isFirmPrice,
+        category,
+        condition,
+        attributes: pickAttributes(category, attributes),
+        unitCodes: canTagUnits ? unitCodes : [],
+        allowWhatsapp,
+        images: imageFiles.map((image) => image.file),
+        existingImages,
+      };
+      await onSubmit(newProductPayload);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto mt-10 p-8 bg-white rounded-2xl shadow-xl border border-gray-100">
+      <h2 className="text-3xl font-bold text-[#044414] mb-2">
+        {isEditing ? "Edit Listing" : "Sell an Item"}
+      </h2>
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 mb-2">
+            Product Title
+          </label>
+          <input
+            type="text"
+            placeholder="e.g. MacBook Pro"
+            className="w-full px-4 py-3 rounded-xl border border-gray-200 focus:ring-2 focus:ring-[#044414] focus:outline-none"
+            required
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            disabled={isSubmitting}
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">
+              Price (KSh)
+            </label>
+            <input
+              type="number"
+              placeholder="e.g. 950"
+              className="w-full px-4 py-3 rounded-xl border border-gray-200 focus:ring-2 focus:ring-[#044414] focus:outline-none"
+              required
+              value={price}
+              onChange={(e) => setPrice(e.target.value)}
+              disabled={isSubmitting}
+            />
+            <label className="flex items-center gap-2 mt-2 text-xs text-gray-600 cursor-pointer">
+              <input
+                type="checkbox"
+                className="w-4 h-4 accent-[#044414]"
+                checked={isFirmPrice}
+                onChange={(e) => setIsFirmPrice(e.target.checked)}
+                disabled={isSubmitting}
+              />
+              Firm price (no offers)
+            </label>
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">
+              Category
+            </label>
+            <select
+              className="w-full px-4 py-3 rounded-xl border border-gray-200 focus:ring-2 focus:ring-[#044414] focus:outline-none"
+              value={category}
+              onChange={(e) => setCategory(e.target.value as Category)}
+              disabled={isSubmitting}
+            >
+              {categoryOptions.map((cat) => (
+                <option key={cat} value={cat}>
+                  {cat}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 mb-2">
+            Condition
+          </label>
+          <select
+            className="w-full px-4 py-3 rounded-xl border border-gray-200 focus:ring-2 focus:ring-[#044414] focus:outline-none"
+            value={condition}
+            onChange={(e) => setCondition(e.target.value as Condition)}
+            disabled={isSubmitting}
+          >
+            {Object.values(Condition).map((cond) => (
+              <option key={cond} value={cond}>
+                {cond}
+              </option>
+            ))}
+          </select>
+        </div>
+        {attributeFields(category).length > 0 && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {attributeFields(category).map((field) => (
+              <div key={field.key}>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  {field.label}
+                  {field.unit && ` (${field.unit})`}
+                </label>
+                <AttributeInput
+                  field={field}
+                  value={attributes[field.key] ?? ""}
+                  onChange={(value) =>
+                    setAttributes((prev) => ({ ...prev, [field.key]: value }))
+                  }
+                  emptyLabel="Not specified"
+                  disabled={isSubmitting}
+                  className="w-full px-4 py-3 rounded-xl border border-gray-200 focus:ring-2 focus:ring-[#044414] focus:outline-none"
+                />
+              </div>
+            ))}
+          </div>
+        )}
+        {canTagUnits && (
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">
+              Course units (optional)
+            </label>
+            <UnitCodeInput
+              codes={unitCodes}
+              onChange={setUnitCodes}
+              max={MAX_UNITS_PER_LISTING}
+              disabled={isSubmitting}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Students browsing by unit code will find your listing.
+            </p>
+          </div>
+        )}
+        <div>
+          <div className="flex justify-between items-center mb-2">
+            <label className="block text-sm font-semibold text-gray-700">
+              Description
+            </label>
+            <button
+              type="button"
+              onClick={handleAIDescription}
+              disabled={isGenerating || isSubmitting}
+              className="text-xs font-bold text-[#044414] flex items-center gap-1 bg-green-50 px-3 py-1 rounded-full border border-green-100 disabled:opacity-50"
+            >
+              {isGenerating ? "Generating..." : "✨ AI Write"}
+            </button>
+          </div>
+          <textarea
+            rows={4}
+            className="w-full px-4 py-3 rounded-xl border border-gray-200 focus:ring-2 focus:ring-[#044414] focus:outline-none disabled:opacity-50"
+            required
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            disabled={isSubmitting}
+          ></textarea>
+        </div>
+        <label className="flex items-start gap-3 bg-gray-50 border border-gray-100 rounded-xl p-4 cursor-pointer">
+          <input
+            type="checkbox"
+            className="mt-1 w-4 h-4 accent-[#25D366]"
+            checked={allowWhatsapp}
+            onChange={(e) => setAllowWhatsapp(e.target.checked)}
+            disabled={isSubmitting}
+          />
+          <span>
+            <span className="block text-sm font-semibold text-gray-700">
+              Also allow WhatsApp contact
+            </span>
+            <span className="block text-xs text-gray-500">
+              Shows your WhatsApp number on this listing. Buyers can always
+              message you in the app.
+            </span>
+          </span>
+        </label>
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 mb-2">
+            Photos (Max 3)
+          </label>
+          <div className="grid grid-cols-3 gap-4">
+            {existingImages.map((url) => (
+              <div
+                key={url}
+                className="aspect-square rounded-xl overflow-hidden relative group"
+              >
+                <img
+                  src={url}
+                  className="w-full h-full object-cover"
+                  crossOrigin="anonymous"
+                />
+                <button
+                  type="button"
+                  onClick={() =>
+                    setExistingImages(existingImages.filter((u) => u !== url))
+                  }
+                  disabled={isSubmitting}
+                  className="absolute top-1 right-1 bg-red-500 text-white rounded-full p-1 opacity-0 group-hover:opacity-100 transition-opacity disabled:opacity-30"
+                >
+                  X
+                </button>
+              </div>
+            ))}
+            {imageFiles.map((image, i) => (
+              <div
+                key={image.previewUrl}
+                className="aspect-square rounded-xl overflow-hidden relative group"
+              >
+                <img
+                  src={image.previewUrl}
+                  className="w-full h-full object-cover"
+                />
+                <span className="absolute bottom-1 left-1 right-1 bg-black/60 text-white text-[10px] px-2 py-0.5 rounded-md text-center">
+                  {image.compressedSize < image.originalSize
+                    ? `${formatBytes(image.originalSize)} → ${formatBytes(image.compressedSize)}`
+                    : formatBytes(image.compressedSize)}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => removeImageFile(i)}
+                  disabled={isSubmitting}
+                  className="absolute top-1 right-1 bg-red-500 text-white rounded-full p-1 opacity-0 group-hover:opacity-100 transition-opacity disabled:opacity-30"
+                >
+                  X
+                </button>
+              </div>
+            ))}
+            {isCompressing && (
+              <div className="aspect-square rounded-xl border-2 border-dashed border-gray-200 flex flex-col items-center justify-center gap-2">
+                <div className="spinner w-5 h-5"></div>
+                <span className="text-xs text-gray-400 font-medium">
+                  Optimizing...
+                </span>
+              </div>
+            )}
+            {remainingSlots > 0 && !isCompressing && (
+              <label
+                className={`aspect-square rounded-xl border-2 border-dashed border-gray-300 flex flex-col items-center justify-center ${isSubmitting ? "cursor-not-allowed opacity-50" : "cursor-pointer"}`}
+              >
+                <span className="text-xs text-gray-400 font-medium">
+                  Add Photo
+                </span>
+                <input
+                  type="file"
+                  className="hidden"
+                  accept="image/*"
+                  multiple
+                  onChange={handleFileChange}
+                  disabled={isSubmitting}
+                />
+              </label>
+            )}
+          </div>
+          {existingImages.length + imageFiles.length > 0 && (
+            <button
+              type="button"
+              onClick={handleSuggestFromPhotos}
+              disabled={isSuggesting || isCompressing || isSubmitting}
+              className="mt-3 text-xs font-bold text-[#044414] flex items-center gap-1 bg-green-50 px-3 py-1 rounded-full border border-green-100 disabled:opacity-50"
+            >
+              {isSuggesting
+                ? "Looking at your photos..."
+                : "✨ Suggest from photos"}
+            </button>
+          )}
+          {suggestion && (
+            <ListingSuggestionPanel
+              suggestion={suggestion}
+              current={{ title, category, condition, description }}
+              skippedPhotos={skippedPhotos}
+              categories={categoryOptions}
+              onAccept={acceptSuggestion}
+              onDismiss={() => setSuggestion(null)}
+            />
+          )}
+          {imageFiles.length > 0 && (
+            <p className="text-xs text-gray-500 mt-2">
+              Photos optimized for upload:{" "}
+              {formatBytes(
+                imageFiles.reduce((sum, image) => sum + image.originalSize, 0),
+              )}{" "}
+              →{" "}
+              {formatBytes(
+                imageFiles.reduce(
+                  (sum, image) => sum + image.compressedSize,
+                  0,
+                ),
+              )}
+            </p>
+          )}
+        </div>
+        <button
+          type="submit"
+          disabled={isSubmitting || isCompressing}
+          className="w-full bg-[#044414] text-white py-4 rounded-xl font-bold hover:bg-green-900 transition-all shadow-lg flex items-center justify-center gap-2 disabled:opacity-70 disabled:cursor-not-allowed"
+        >
+          {isSubmitting && (
+            <div className="spinner border-white border-left-transparent w-5 h-5"></div>
+          )}
+          {isSubmitting
+            ? isEditing
+              ? "Saving..."
+              : "Publishing..."
+            : isEditing
+              ? "Save Changes"
+              : "Post Listing"}
+        </button>
+      </form>
+    </div>
+  );
+};
+const ProductDetailPage: React.FC<{
+  product: Product;
+  user: User | null;
+  isOwner: boolean;
+  onStatusChange: (
+    id: string,
+    status: ListingStatus,
+    buyer: SoldTo,
+  ) => Promise<boolean>;
+  // Called with the reserved listing when an offer is accepted
+  onListingUpdated: (product: Product) => void;
+  onEdit: (id: string) => void;
+  onDelete: (id: string) => void;
+  onMessageSeller: () => Promise<void>;
+  isSaved: boolean;
+  onToggleSave: () => void;
+  onViewSeller: () => void;
+  onBack: () => void;
+}> = ({
+  product,
+  user,
+  isOwner,
+  onStatusChange,
+  onListingUpdated,
+  onEdit,
+  onDelete,
+  onMessageSeller,
+  isSaved,
+  onToggleSave,
+  onViewSeller,
+  onBack,
+}) => {
+  const [activeImage, setActiveImage] = React.useState(0);
+  const [isContacting, setIsContacting] = React.useState(false);
+  const [isReporting, setIsReporting] = React.useState(false);
+  const whatsappNumber = product.allowWhatsapp
+    ? toWhatsAppNumber(product.sellerPhone)
+    : null;
+  const whatsappLink = whatsappNumber
+    ? `https://wa.me/${whatsappNumber}?text=${encodeURIComponent(`Hi, I'm interested in your ${product.title}`)}`
+    : null;
+
+  useEffect(() => {
+    analyticsService.recordEvent(product, "view");
+  }, [product.id]);
+
+  const specs = attributeFields(product.category).flatMap((field) =>
+    product.attributes[field.key]
+      ? [{ field, value: product.attributes[field.key] }]
+      : [],
+  );
+
+  const handleMessageSeller = async () => {
+    analyticsService.recordEvent(product, "message-click");
+    setIsContacting(true);
+    try {
+      await onMessageSeller();
+    } finally {
+      setIsContacting(false);
+    }
+  };
+
+  // images is normalized to a list of non-empty URLs by the API client
+  const images = product.images;
 
   // Reset active image if it exceeds valid images length
   React.useEffect(() => {
-    if (activeImage >= validImages.length) {
+    if (activeImage >= images.length) {
       setActiveImage(0);
     }
-  }, [validImages.length]);
+  }, [images.length]);
+
+  // Handle image load errors
+  const handleImageError = (index: number) => {
+    console.error(
+      `✗ Image ${index + 1} failed to load for "${product.title}"`,
+      {
+        url: images[index],
+      },
+    );
+  };
+
+  const goToNextImage = () => {
+    setActiveImage((prev) => (prev === images.length - 1 ? 0 : prev + 1));
+  };
+
+  const goToPreviousImage = () => {
+    setActiveImage((prev) => (prev === 0 ? images.length - 1 : prev - 1));
+  };
+
+  const displayImage = images[activeImage];
+
+  return (
+    <div className="container mx-auto px-4 py-10">
+      <button
+        onClick={onBack}
+        className="flex items-center gap-2 text-gray-600 font-medium mb-8"
+      >
+        ← Back
+      </button>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-12">
+        <div>
+          {images.length > 0 && displayImage ? (
+            <>
+              {/* Main image with navigation */}
+              <div className="relative">
+                <img
+                  key={displayImage}
+                  src={displayImage}
+                  alt={`${product.title} - Image ${activeImage + 1}`}
+                  className="w-full aspect-video object-cover rounded-3xl shadow-sm"
+                  crossOrigin="anonymous"
+                  onLoad={() => {
+                    console.log(
+                      `✓ Detail image ${activeImage + 1} loaded: "${product.title}"`,
+                    );
+                  }}
+                  onError={() => {
+                    handleImageError(activeImage);
+                  }}
+                />
+
+                {/* Navigation arrows (only if multiple images) */}
+                {images.length > 1 && (
+                  <>
+                    <button
+                      onClick={goToPreviousImage}
+                      className="absolute left-4 top-1/2 -translate-y-1/2 bg-black/60 hover:bg-black/80 text-white p-3 rounded-full transition-all"
+                      aria-label="Previous image"
+                    >
+                      <svg
+                        className="w-6 h-6"
+                        fill="none"
+                        stroke="currentColor"
+                        viewBox="0 0 24 24"
+                      >
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth={2}
+                          d="M15 19l-7-7 7-7"
+                        />
+                      </svg>
+                    </button>
+                    <button
+                      onClick={goToNextImage}
+                      className="absolute right-4 top-1/2 -translate-y-1/2 bg-black/60 hover:bg-black/80 text-white p-3 rounded-full transition-all"
+                      aria-label="Next image"
+                    >
+                      <svg
+                        className="w-6 h-6"
+                        fill="none"
+                        stroke="currentColor"
+                        viewBox="0 0 24 24"
+                      >
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth={2}
+                          d="M9 5l7 7-7 7"
+                        />
+                      </svg>
+                    </button>
+                  </>
+                )}
+
+                {/* Image counter */}
+                {images.length > 1 && (
+                  <div className="absolute top-4 right-4 bg-black/70 text-white px-3 py-1 rounded-full text-sm font-bold">
+                    {activeImage + 1}/{images.length}
+                  </div>
+                )}
+              </div>
+
+              {/* Thumbnail gallery */}
+              {images.length > 1 && (
+                <div className="flex gap-2 mt-4 overflow-x-auto pb-2">
+                  {images.map((img, i) => (
+                    <button
+                      key={i}
+                      onClick={() => setActiveImage(i)}
+                      className={`flex-shrink-0 w-24 h-24 rounded-lg overflow-hidden border-2 transition-all ${
+                        activeImage === i
+                          ? "border-[#044414] ring-2 ring-[#044414]"
+                          : "border-gray-200 hover:border-gray-300"
+                      }`}
+                      aria-label={`View image ${i + 1}`}
+                    >
+                      <img
+                        src={img}
+                        alt={`Thumbnail ${i + 1}`}
+                        className="w-full h-full object-cover"
+                        crossOrigin="anonymous"
+                        onError={() => {
+                          console.warn(`Thumbnail ${i + 1} failed to load`);
+                        }}
+                      />
+                    </button>
+                  ))}
+                </div>
+              )}
+            </>
+          ) : (
+            /* Fallback placeholder */
+            <div className="w-full aspect-video bg-gradient-to-br from-gray-200 to-gray-300 rounded-3xl flex flex-col items-center justify-center">
+              <svg
+                className="w-16 h-16 text-gray-400 mb-3"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={1.5}
+                  d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z"
+                />
+              </svg>
+              <span className="text-gray-500 text-lg font-medium">
+                No images available
+              </span>
+            </div>
+          )}
+        </div>
+        <div>
+          <div className="flex justify-between items-start gap-4 mb-2">
+            <h1 className="text-4xl font-extrabold">{product.title}</h1>
+            {!isOwner && (
+              <FavoriteButton
+                isSaved={isSaved}
+                onToggle={onToggleSave}
+                size="lg"
+                className="flex-shrink-0 border border-gray-200"
+              />
+            )}
+          </div>
+          <p className="text-3xl font-bold text-[#044414] mb-8">
+            KSh {product.price.toLocaleString()}
+            {product.isFirmPrice && (
+              <span className="ml-3 align-middle text-xs font-bold bg-gray-100 text-gray-600 px-2 py-1 rounded-md">
+                Firm price
+              </span>
+            )}
+          </p>
+          {product.status !== ListingStatus.Available && (
+            <p className="bg-gray-50 border border-gray-200 text-gray-700 text-sm px-4 py-3 rounded-xl mb-6">
+              <span className="font-bold">{STATUS_LABELS[product.status]}</span>
+              {product.status === ListingStatus.Reserved &&
+                product.agreedPrice !== null &&
+                ` at KSh ${product.agreedPrice.toLocaleString()}`}
+              {product.statusChangedAt[product.status] &&
+                ` since ${new Date(product.statusChangedAt[product.status]!).toLocaleDateString()}`}
+              {product.status === ListingStatus.Reserved &&
+                !isOwner &&
+                (user && user.id === product.buyerId
+                  ? ". The seller is holding this item for you."
+                  : ". The seller is holding this item for another buyer.")}
+            </p>
+          )}
+          {product.isHidden && (
+            <p className="bg-red-50 border border-red-100 text-red-700 text-sm px-4 py-3 rounded-xl mb-6">
+              This listing was reported and is hidden from the marketplace until
+              a moderator reviews it.
+            </p>
+          )}
+          {isExpired(product) && (
+            <p className="bg-yellow-50 border border-yellow-200 text-yellow-800 text-sm px-4 py-3 rounded-xl mb-6">
+              This listing has expired and is no longer shown in the feed.
+              {isOwner &&
+                " Renew it from your dashboard to make it visible again."}
+            </p>
+          )}
+          <p className="text-gray-600 mb-6">{product.description}</p>
+          {product.unitCodes.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 mb-6">
+              <span className="text-sm text-gray-500">For units:</span>
+              {product.unitCodes.map((code) => (
+                <button
+                  key={code}
+                  onClick={() => navigate(paths.units([code]))}
+                  title={unitTitle(code) ?? undefined}
+                  className="bg-green-50 border border-green-100 text-[#044414] text-sm font-bold px-2 py-1 rounded-lg hover:border-[#044414]"
+                >
+                  {code}
+                </button>
+              ))}
+            </div>
+          )}
+          {specs.length > 0 && (
+            <table className="w-full text-sm mb-6 border border-gray-100 rounded-xl overflow-hidden">
+              <tbody>
+                {specs.map(({ field, value }) => (
+                  <tr key={field.key} className="even:bg-gray-50">
+                    <th className="text-left font-semibold text-gray-500 px-4 py-2 w-1/3">
+                      {field.label}
+                    </th>
+                    <td className="px-4 py-2 text-gray-800">
+                      {formatAttribute(field, value)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <p className="text-sm text-gray-500 mb-10">
+            Sold by{" "}
+            <button
+              onClick={onViewSeller}
+              className="font-bold text-[#044414] hover:underline"
+            >
+              {isOwner ? "you" : product.sellerName}
+            </button>
+            <RatingBadge summary={product.sellerRating} className="ml-2" />
+          </p>
+          {isOwner && user ? (
+            <div className="grid grid-cols-2 gap-4">
+              <ListingStatusControl
+                product={product}
+                sellerId={user.id}
+                onChange={(status, buyer) =>
+                  onStatusChange(product.id, status, buyer)
+                }
+              />
+              <button
+                onClick={() => onEdit(product.id)}
+                className="border border-gray-200 text-gray-700 py-4 rounded-xl font-bold"
+              >
+                Edit
+              </button>
+              <button
+                onClick={() => onDelete(product.id)}
+                className="col-span-2 border border-red-200 text-red-600 py-4 rounded-xl font-bold"
+              >
+                Delete
+              </button>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              <button
+                onClick={handleMessageSeller}
+                disabled={isContacting || !isActive(product)}
+                className="bg-[#044414] text-white py-4 rounded-xl font-bold w-full flex justify-center items-center gap-2 disabled:opacity-60"
+              >
+                {isContacting && (
+                  <div className="spinner border-white border-left-transparent w-4 h-4"></div>
+                )}
+                Message Seller
+              </button>
+              {whatsappLink && (
+                <a
+                  href={whatsappLink}
+                  onClick={() =>
+                    analyticsService.recordEvent(product, "whatsapp-click")
+                  }
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="bg-[#25D366] text-white py-4 rounded-xl font-bold w-full flex justify-center"
+                >
+                  Chat on WhatsApp
+                </a>
+              )}
+              <button
+                onClick={() =>
+                  user ? setIsReporting(true) : navigate(paths.login())
+                }
+                className="text-sm text-gray-400 hover:text-red-600 underline w-full"
+              >
+                Report this listing
+              </button>
+            </div>
+          )}
+          {user && (
+            <OfferPanel
+              product={product}
+              user={user}
+              isOwner={isOwner}
+              onAccepted={onListingUpdated}
+            />
+          )}
+          {product.status === ListingStatus.Sold && product.buyerId && (
+            <SaleReviews product={product} user={user} />
+          )}
+        </div>
+      </div>
+      {isReporting && (
+        <ReportDialog product={product} onClose={() => setIsReporting(false)} />
+      )}
+    </div>
+  );
+};
+
+// Who bought a listing, as recorded when it is marked sold
+type SoldTo = { buyerId: string } | { buyerEmail: string } | null;
+
+/**
+ * Owner controls for moving a listing between statuses. Marking it sold
+ * first asks who bought it.
+ * @param compact - A single dropdown instead of one button per status
+ */
+const ListingStatusControl: React.FC<{
+  product: Product;
+  sellerId: string;
+  onChange: (status: ListingStatus, buyer: SoldTo) => Promise<boolean>;
+  compact?: boolean;
+}> = ({ product, sellerId, onChange, compact = false }) => {
+  const [isMarkingSold, setIsMarkingSold] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const change = async (status: ListingStatus) => {
+    if (status === ListingStatus.Sold) {
+      setIsMarkingSold(true);
+      return;
+    }
+    if (
+      status === ListingStatus.Withdrawn &&
+      !confirm(
+        "Withdraw this listing? Buyers won't see it, but you can make it available again later.",
+      )
+    )
+      return;
+    setIsSaving(true);
+    const ok = await onChange(status, null);
+    setIsSaving(false);
+    if (!ok) alert("Couldn't update this listing. Please try again.");
+  };
+
+  return (
+    <>
+      {compact ? (
+        <select
+          value={product.status}
+          disabled={isSaving}
+          onChange={(e) => change(e.target.value as ListingStatus)}
+          className="w-full px-3 py-2 rounded-lg border border-gray-200 focus:ring-2 focus:ring-[#044414] focus:outline-none text-xs font-bold"
+          aria-label={`Status of ${product.title}`}
+        >
+          <option value={product.status}>
+            {STATUS_LABELS[product.status]}
+          </option>
+          {nextStatuses(product.status).map((status) => (
+            <option key={status} value={status}>
+              {STATUS_ACTIONS[status]}
+            </option>
+          ))}
+        </select>
+      ) : (
+        nextStatuses(product.status).map((status) => (
+          <button
+            key={status}
+            onClick={() => change(status)}
+            disabled={isSaving}
+            className={`py-4 rounded-xl font-bold disabled:opacity-60 ${
+              status === ListingStatus.Sold
+                ? "bg-[#044414] text-white"
+                : "border border-gray-200 text-gray-700"
+            }`}
+          >
+            {STATUS_ACTIONS[status]}
+          </button>
+        ))
+      )}
+      {isMarkingSold && (
+        <MarkSoldDialog
+          product={product}
+          sellerId={sellerId}
+          onConfirm={async (buyer) => {
+            if (await onChange(ListingStatus.Sold, buyer))
+              setIsMarkingSold(false);
+            else alert("Couldn't mark this item as sold. Please try again.");
+          }}
+          onCancel={() => setIsMarkingSold(false)}
+        />
+      )}
+    </>
+  );
+};
+
+const MarkSoldDialog: React.FC<{
+  product: Product;
+  sellerId: string;
+  onConfirm: (buyer: SoldTo) => Promise<void>;
+  onCancel: () => void;
+}> = ({ product, sellerId, onConfirm, onCancel }) => {
+  // People who messaged about this listing are the likely buyers
+  const [candidates, setCandidates] = useState<Conversation[]>([]);
+  const [choice, setChoice] = useState<string>("none");
+  const [email, setEmail] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    chatService
+      .fetchConversations(sellerId)
+      .then((all) =>
+        setCandidates(all.filter((c) => c.productId === product.id)),
+      )
+      .catch(() => setCandidates([]));
+  }, [sellerId, product.id]);
+
+  const handleConfirm = async () => {
+    setIsSaving(true);
+    try {
+      await onConfirm(
+        choice === "none"
+          ? null
+          : choice === "email"
+            ? { buyerEmail: email.trim() }
+            : { buyerId: choice },
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const option = (value: string, label: React.ReactNode) => (
+    <label className="flex items-center gap-3 p-3 rounded-xl border border-gray-200 cursor-pointer">
+      <input
+        type="radio"
+        name="buyer"
+        checked={choice === value}
+        onChange={() => setChoice(value)}
+        className="accent-[#044414]"
+      />
+      {label}
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-md p-6">
+        <h2 className="text-xl font-bold mb-1">Mark as sold</h2>
+        <p className="text-gray-500 text-sm mb-5">
+          Who bought "{product.title}"? Recording the buyer lets you rate each
+          other.
+        </p>
+        <div className="space-y-2 mb-6">
+          {candidates.map((c) => option(c.buyerId, c.buyerName))}
+          {option(
+            "email",
+            <span className="flex-grow">
+              Someone else
+              {choice === "email" && (
+                <input
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="buyer@students.dkut.ac.ke"
+                  className="mt-2 w-full px-3 py-2 rounded-lg border border-gray-200 focus:border-[#044414] focus:outline-none"
+                  autoFocus
+                />
+              )}
+            </span>,
+          )}
+          {option("none", "Don't record a buyer")}
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <button
+            onClick={onCancel}
+            className="border border-gray-200 text-gray-700 py-3 rounded-xl font-bold"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={isSaving || (choice === "email" && !email.trim())}
+            className="bg-[#044414] text-white py-3 rounded-xl font-bold disabled:opacity-60"
+          >
+            {isSaving ? "Saving..." : "Mark as Sold"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const REPORT_REASON_LABELS: Record<ReportReason, string> = {
+  [ReportReason.Scam]: "Scam or fraud",
+  [ReportReason.Prohibited]: "Prohibited item",
+  [ReportReason.Offensive]: "Offensive content",
+  [ReportReason.Misleading]: "Misleading description or photos",
+  [ReportReason.Duplicate]: "Duplicate listing",
+  [ReportReason.Other]: "Something else",
+};
+
+const ReportDialog: React.FC<{
+  product: Product;
+  onClose: () => void;
+}> = ({ product, onClose }) => {
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [details, setDetails] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const [isSent, setIsSent] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason || isSending) return;
+    setIsSending(true);
+    const ok = await reportService.create(product.id, reason, details.trim());
+    setIsSending(false);
+    if (ok) setIsSent(true);
+    else alert("Couldn't send your report. Please try again.");
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-md p-6">
+        {isSent ? (
+          <>
+            <h2 className="text-xl font-bold mb-2">Thanks for reporting</h2>
+            <p className="text-gray-500 text-sm mb-6">
+              Our moderators will review "{product.title}". Listings reported by
+              several students are hidden until they are checked.
+            </p>
+            <button
+              onClick={onClose}
+              className="bg-[#044414] text-white py-3 rounded-xl font-bold w-full"
+            >
+              Done
+            </button>
+          </>
+        ) : (
+          <form onSubmit={handleSubmit}>
+            <h2 className="text-xl font-bold mb-1">Report listing</h2>
+            <p className="text-gray-500 text-sm mb-5">
+              What's wrong with "{product.title}"?
+            </p>
+            <div className="space-y-2 mb-4">
+              {Object.values(ReportReason).map((value) => (
+                <label
+                  key={value}
+                  className="flex items-center gap-3 p-3 rounded-xl border border-gray-200 cursor-pointer"
+                >
+                  <input
+                    type="radio"
+                    name="reason"
+                    checked={reason === value}
+                    onChange={() => setReason(value)}
+                    className="accent-[#044414]"
+                  />
+                  {REPORT_REASON_LABELS[value]}
+                </label>
+              ))}
+            </div>
+            <textarea
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              maxLength={500}
+              rows={3}
+              placeholder="Anything moderators should know? (optional)"
+              className="w-full px-4 py-3 rounded-xl border border-gray-200 focus:border-[#044414] focus:outline-none mb-6"
+            />
+            <div className="grid grid-cols-2 gap-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="border border-gray-200 text-gray-700 py-3 rounded-xl font-bold"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={!reason || isSending}
+                className="bg-red-600 text-white py-3 rounded-xl font-bold disabled:opacity-60"
+              >
+                {isSending ? "Sending..." : "Report"}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const MAX_REVIEW_LENGTH = 280;
+
+// Reviews between the buyer and seller of a completed sale, with a form for
+// whichever party hasn't reviewed yet
+const SaleReviews: React.FC<{
+  product: Product;
+  user: User | null;
+}> = ({ product, user }) => {
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState("");
+  const [isPosting, setIsPosting] = useState(false);
+
+  useEffect(() => {
+    reviewService
+      .fetchForProduct(product.id)
+      .then(setReviews)
+      .catch(() => setReviews([]));
+  }, [product.id]);
+
+  const isParty =
+    !!user && (user.id === product.userId || user.id === product.buyerId);
+  const canReview =
+    isParty && !reviews.some((review) => review.reviewerId === user?.id);
+
+  const handlePost = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (rating === 0 || isPosting) return;
+    setIsPosting(true);
+    const review = await reviewService.create(
+      product.id,
+      rating,
+      comment.trim(),
+    );
+    setIsPosting(false);
+    if (review) setReviews((prev) => [...prev, review]);
+    else alert("Couldn't post your review. Please try again.");
+  };
+
+  if (reviews.length === 0 && !canReview) return null;
+
+  return (
+    <div className="mt-10 border-t pt-8">
+      <h2 className="text-xl font-bold mb-4">Reviews for this sale</h2>
+      <div className="space-y-4">
+        {reviews.map((review) => (
+          <ReviewItem key={review.id} review={review} />
+        ))}
+      </div>
+      {canReview && (
+        <form
+          onSubmit={handlePost}
+          className="mt-6 bg-gray-50 p-4 rounded-xl space-y-3"
+        >
+          <p className="font-semibold text-gray-700">
+            Rate the {user!.id === product.userId ? "buyer" : "seller"}
+          </p>
+          <StarRating value={rating} onChange={setRating} size="lg" />
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            maxLength={MAX_REVIEW_LENGTH}
+            rows={3}
+            placeholder="How did the meetup go? (optional)"
+            className="w-full px-4 py-3 rounded-xl border border-gray-200 focus:border-[#044414] focus:outline-none"
+          />
+          <button
+            type="submit"
+            disabled={rating === 0 || isPosting}
+            className="bg-[#044414] text-white px-6 py-2 rounded-lg font-bold disabled:opacity-60"
+          >
+            {isPosting ? "Posting..." : "Post review"}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+const ReviewItem: React.FC<{ review: Review }> = ({ review }) => (
+  <div className="bg-white border border-gray-100 p-4 rounded-xl">
+    <div className="flex items-center justify-between gap-2 mb-1">
+      <span className="font-semibold text-gray-800">
+        {review.reviewerName}{" "}
+        <span className="text-gray-400 font-normal text-sm">
+          ({review.reviewerRole})
+        </span>
+      </span>
+      <StarRating value={review.rating} />
+    </div>
+    {review.comment && <p className="text-gray-600">{review.comment}</p>}
+    <p className="text-xs text-gray-400 mt-1">
+      {new Date(review.createdAt).toLocaleDateString()}
+    </p>
+  </div>
+);
+
+const OFFER_STATUS_LABELS: Record<OfferStatus, string> = {
+  [OfferStatus.Pending]: "Awaiting reply",
+  [OfferStatus.Accepted]: "Accepted",
+  [OfferStatus.Declined]: "Declined",
+  [OfferStatus.Countered]: "Countered",
+};
+
+const parseOfferAmount = (input: string | null): number | null => {
+  const amount = Number(input?.trim());
+  return input?.trim() && Number.isFinite(amount) && amount > 0 ? amount : null;
+};
+
+/**
+ * Offers and counter-offers in the order given. The party an offer is
+ * waiting on can accept, decline or counter it.
+ * @param showListing - Name the listing on each offer (dashboard)
+ * @param onChanged - Called after any response so the caller can reload
+ * @param onAccepted - Receives the listing, now reserved, after accepting
+ */
+const OfferHistory: React.FC<{
+  offers: Offer[];
+  viewerId: string;
+  showListing?: boolean;
+  onOpenListing?: (productId: string) => void;
+  onChanged: () => void;
+  onAccepted: (product: Product) => void;
+}> = ({
+  offers,
+  viewerId,
+  showListing = false,
+  onOpenListing,
+  onChanged,
+  onAccepted,
+}) => {
+  // Offer currently being answered, to disable its buttons
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const awaitsViewer = (offer: Offer) =>
+    offer.status === OfferStatus.Pending &&
+    (offer.fromRole === "buyer") !== (offer.buyerId === viewerId);
+
+  const describe = (offer: Offer) => {
+    const isViewer =
+      offer.fromRole === "buyer"
+        ? offer.buyerId === viewerId
+        : offer.buyerId !== viewerId;
+    if (isViewer)
+      return offer.fromRole === "buyer" ? "You offered" : "You countered";
+    return offer.fromRole === "buyer"
+      ? `${offer.buyerName} offered`
+      : "Seller countered";
+  };
+
+  const respond = async (offer: Offer, action: () => Promise<boolean>) => {
+    setBusyId(offer.id);
+    const ok = await action();
+    setBusyId(null);
+    if (ok) onChanged();
+    else alert("That didn't work. The offer may have changed; try again.");
+  };
+
+  const handleAccept = (offer: Offer) => {
+    if (
+      !confirm(
+        `Accept KSh ${offer.amount.toLocaleString()}? The listing will be reserved at this price.`,
+      )
+    )
+      return;
+    respond(offer, async () => {
+      const product = await offerService.accept(offer.id);
+      if (product) onAccepted(product);
+      return product !== null;
+    });
+  };
+
+  const handleCounter = (offer: Offer) => {
+    const amount = parseOfferAmount(prompt("Your counter-offer (KSh):"));
+    if (amount === null) return;
+    respond(
+      offer,
+      async () => (await offerService.counter(offer.id, amount)) !== null,
+    );
+  };
+
+  return (
+    <ul className="space-y-2">
+      {offers.map((offer) => (
+        <li
+          key={offer.id}
+          className="bg-white border border-gray-100 p-4 rounded-xl"
+        >
+          {showListing && (
+            <button
+              onClick={() => onOpenListing?.(offer.productId)}
+              className="block text-xs font-bold text-gray-500 hover:text-[#044414] mb-1"
+            >
+              {offer.productTitle}
+            </button>
+          )}
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <span>
+              {describe(offer)}{" "}
+              <span className="font-bold text-[#044414]">
+                KSh {offer.amount.toLocaleString()}
+              </span>
+            </span>
+            <span
+              className={`text-xs font-bold px-2 py-1 rounded-md ${
+                offer.status === OfferStatus.Accepted
+                  ? "bg-green-100 text-green-700"
+                  : offer.status === OfferStatus.Pending
+                    ? "bg-yellow-100 text-yellow-800"
+                    : "bg-gray-100 text-gray-600"
+              }`}
+            >
+              {OFFER_STATUS_LABELS[offer.status]}
+            </span>
+          </div>
+          <p className="text-xs text-gray-400 mt-1">
+            {new Date(offer.createdAt).toLocaleString()}
+          </p>
+          {awaitsViewer(offer) && (
+            <div className="flex gap-2 mt-3">
+              <button
+                onClick={() => handleAccept(offer)}
+                disabled={busyId === offer.id}
+                className="bg-[#044414] text-white text-sm px-4 py-2 rounded-lg font-bold disabled:opacity-60"
+              >
+                Accept
+              </button>
+              <button
+                onClick={() => handleCounter(offer)}
+                disabled={busyId === offer.id}
+                className="border border-gray-200 text-gray-700 text-sm px-4 py-2 rounded-lg font-bold disabled:opacity-60"
+              >
+                Counter
+              </button>
+              <button
+                onClick={() =>
+                  respond(offer, () => offerService.decline(offer.id))
+                }
+                disabled={busyId === offer.id}
+                className="border border-red-200 text-red-600 text-sm px-4 py-2 rounded-lg font-bold disabled:opacity-60"
+              >
+                Decline
+              </button>
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+/**
+ * Offer form and negotiation history on a listing page, for the seller and
+ * for buyers who have made offers
+ */
+const OfferPanel: React.FC<{
+  product: Product;
+  user: User;
+  isOwner: boolean;
+  onAccepted: (product: Product) => void;
+}> = ({ product, user, isOwner, onAccepted }) => {
+  const [offers, setOffers] = useState<Offer[]>([]);
+  const [amount, setAmount] = useState("");
+  const [isSending, setIsSending] = useState(false);
+
+  const loadOffers = () => {
+    offerService
+      .fetchForProduct(product.id)
+      .then(setOffers)
+      .catch(() => setOffers([]));
+  };
+
+  useEffect(loadOffers, [product.id]);
+
+  const hasPending = offers.some(
+    (offer) =>
+      offer.buyerId === user.id && offer.status === OfferStatus.Pending,
+  );
+  const canOffer =
+    !isOwner &&
+    product.status === ListingStatus.Available &&
+    !product.isFirmPrice &&
+    !hasPending;
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseOfferAmount(amount);
+    if (value === null || isSending) return;
+    setIsSending(true);
+    const offer = await offerService.create(product.id, value);
+    setIsSending(false);
+    if (offer) {
+      setOffers((prev) => [...prev, offer]);
+      setAmount("");
+    } else alert("Couldn't send your offer. Please try again.");
+  };
+
+  if (offers.length === 0 && !canOffer) return null;
+
+  return (
+    <div className="mt-10 border-t pt-8">
+      <h2 className="text-xl font-bold mb-4">Offers</h2>
+      {canOffer && (
+        <form onSubmit={handleSend} className="flex gap-2 mb-4">
+          <input
+            type="number"
+            min={1}
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            placeholder={`Your offer (asking KSh ${product.price.toLocaleString()})`}
+            className="flex-grow px-4 py-2 rounded-lg border border-gray-200 focus:border-[#044414] focus:outline-none"
+          />
+          <button
+            type="submit"
+            disabled={isSending || parseOfferAmount(amount) === null}
+            className="bg-[#044414] text-white px-6 py-2 rounded-lg font-bold disabled:opacity-60"
+          >
+            {isSending ? "Sending..." : "Make an offer"}
+          </button>
+        </form>
+      )}
+      {hasPending && !isOwner && (
+        <p className="text-sm text-gray-500 mb-4">
+          Waiting for a reply to your latest offer.
+        </p>
+      )}
+      <OfferHistory
+        offers={offers}
+        viewerId={user.id}
+        onChanged={loadOffers}
+        onAccepted={onAccepted}
+      />
+    </div>
+  );
+};
+
+const formatResponseTime = (minutes: number) => {
+  if (minutes < 60) return `${Math.max(1, Math.round(minutes))} min`;
+  if (minutes < 60 * 24) return `${Math.round(minutes / 60)} hr`;
+  return `${Math.round(minutes / (60 * 24))} days`;
+};
+
+/**
+ * "Textbooks for my units": the buyer enters their course units and sees
+ * the listings tagged with them
+ */
+const UnitsPage: React.FC<{
+  codes: string[];
+  onChangeCodes: (codes: string[]) => void;
+  onProductClick: (id: string) => void;
+  saveProps: (product: Product) => {
+    isSaved?: boolean;
+    onToggleSave?: () => void;
+  };
+}> = ({ codes, onChangeCodes, onProductClick, saveProps }) => (
+  <div className="container mx-auto px-4 py-10">
+    <h1 className="text-3xl font-extrabold mb-2">Textbooks for my units</h1>
+    <p className="text-gray-500 mb-6">
+      Enter this semester's unit codes to see books and drawing instruments
+      listed for them.
+    </p>
+    <div className="max-w-2xl mb-10">
+      <UnitCodeInput codes={codes} onChange={onChangeCodes} />
+    </div>
+    {codes.length > 0 && (
+      <UnitListings
+        codes={codes}
+        onProductClick={onProductClick}
+        saveProps={saveProps}
+      />
+    )}
+  </div>
+);
+
+/**
+ * Listings tagged with any of the units, grouped by unit. A listing for
+ * several of them appears under each.
+ */
+const UnitListings: React.FC<{
+  codes: string[];
+  onProductClick: (id: string) => void;
+  saveProps: (product: Product) => {
+    isSaved?: boolean;
+    onToggleSave?: () => void;
+  };
+}> = ({ codes, onProductClick, saveProps }) => {
+  const unitQuery = useMemo<ProductQuery>(
+    () => ({ unitCodes: codes, sort: "newest" }),
+    [codes],
+  );
+  const feed = useProductFeed(unitQuery);
+
+  if (feed.isLoading)
+    return <LoadingState message="Finding listings for your units..." />;
+  if (feed.error)
+    return <ConnectionError message={feed.error} onRetry={feed.reload} />;
+
+  return (
+    <div className="space-y-12">
+      {codes.map((code) => {
+        const matches = feed.products.filter((p) => p.unitCodes.includes(code));
+        return (
+          <section key={code}>
+            <h2 className="text-xl font-bold mb-4">
+              {code}
+              {unitTitle(code) && (
+                <span className="text-gray-500 font-normal">
+                  {" "}
+                  · {unitTitle(code)}
+                </span>
+              )}
+            </h2>
+            {matches.length === 0 ? (
+              <p className="text-gray-500 text-sm">
+                {feed.hasMore
+                  ? "None in the listings loaded so far. Load more below to keep looking."
+                  : "Nothing listed for this unit yet."}
+              </p>
+            ) : (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+                {matches.map((p) => (
+                  <ProductCard
+                    key={p.id}
+                    product={p}
+                    onClick={() => onProductClick(p.id)}
+                    {...saveProps(p)}
+                  />
+                ))}
+              </div>
+            )}
+          </section>
+        );
+      })}
+      <div className="grid">
+        <FeedFooter
+          feed={feed}
+          endMessage="That's everything for your units."
+        />
+      </div>
+    </div>
+  );
+};
+
+const SellerProfilePage: React.FC<{
+  userId: string;
+  onProductClick: (id: string) => void;
+  saveProps: (product: Product) => {
+    isSaved?: boolean;
+    onToggleSave?: () => void;
+  };
+}> = ({ userId, onProductClick, saveProps }) => {
+  const [profile, setProfile] = useState<PublicProfile | null>(null);
+  const [stats, setStats] = useState<ResponseStats | null>(null);
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [tab, setTab] = useState<"active" | "sold">("active");
+
+  const listingsQuery = useMemo<ProductQuery>(
+    () => ({
+      userId,
+      statuses: [...ACTIVE_STATUSES, ListingStatus.Sold],
+      sort: "newest",
+    }),
+    [userId],
+  );
+  const feed = useProductFeed(listingsQuery);
+  const active = feed.products.filter(isActive);
+  const sold = feed.products.filter((p) => p.status === ListingStatus.Sold);
+  const shown = tab === "active" ? active : sold;
+
+  const loadProfile = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setProfile(await userService.fetchPublicProfile(userId));
+      // Stats and reviews are a nice-to-have; the profile renders without them
+      setStats(await chatService.fetchResponseStats(userId));
+      setReviews(await reviewService.fetchForUser(userId).catch(() => []));
+    } catch {
+      setError("Unable to load this seller. Please try again later.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadProfile();
+  }, [userId]);
+
+  if (isLoading) return <LoadingState message="Loading seller profile..." />;
+  if (error) return <ConnectionError message={error} onRetry={loadProfile} />;
+  if (!profile)
+    return (
+      <NotFoundPage
+        title="Seller not found"
+        message="This account may have been removed."
+      />
+    );
+
+  return (
+    <div className="container mx-auto px-4 py-10">
+      <div className="bg-white p-8 rounded-2xl shadow-sm mb-10 flex flex-col md:flex-row md:items-center gap-6">
+        <div className="w-20 h-20 rounded-full bg-yellow-400 text-[#044414] flex items-center justify-center text-3xl font-extrabold flex-shrink-0">
+          {profile.fullName.charAt(0).toUpperCase()}
+        </div>
+        <div className="flex-grow">
+          <h1 className="text-3xl font-extrabold">{profile.fullName}</h1>
+          <p className="text-gray-500">
+            Member since{" "}
+            {new Date(profile.createdAt).toLocaleDateString(undefined, {
+              month: "long",
+              year: "numeric",
+            })}
+          </p>
+          {profile.sellerRating.count > 0 && (
+            <div className="flex items-center gap-2 mt-2">
+              <StarRating value={profile.sellerRating.average} />
+              <span className="text-sm text-gray-600">
+                {profile.sellerRating.average.toFixed(1)} from{" "}
+                {profile.sellerRating.count} review
+                {profile.sellerRating.count === 1 ? "" : "s"} as a seller
+              </span>
+            </div>
+          )}
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-6 text-center">
+          <div>
+            <p className="text-2xl font-bold">
+              {ACTIVE_STATUSES.reduce(
+                (sum, status) => sum + feed.statusCounts[status],
+                0,
+              )}
+            </p>
+            <p className="text-gray-500 text-sm">Active</p>
+          </div>
+          <div>
+            <p className="text-2xl font-bold text-green-600">
+              {feed.statusCounts[ListingStatus.Sold]}
+            </p>
+            <p className="text-gray-500 text-sm">Sold</p>
+          </div>
+          <div>
+            <p className="text-2xl font-bold">
+              {stats && stats.conversations > 0
+                ? `${Math.round(stats.responseRate * 100)}%`
+                : "—"}
+            </p>
+            <p className="text-gray-500 text-sm">Response rate</p>
+          </div>
+          <div>
+            <p className="text-2xl font-bold">
+              {stats?.medianResponseMinutes != null
+                ? formatResponseTime(stats.medianResponseMinutes)
+                : "—"}
+            </p>
+            <p className="text-gray-500 text-sm">Typical reply</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex gap-2 mb-6">
+        {(["active", "sold"] as const).map((value) => (
+          <button
+            key={value}
+            onClick={() => setTab(value)}
+            className={`px-4 py-2 rounded-full text-sm font-medium ${
+              tab === value
+                ? "bg-[#044414] text-white"
+                : "bg-white text-gray-600 border border-gray-200"
+            }`}
+          >
+            {value === "active" ? "Active listings" : "Sold"}
+          </button>
+        ))}
+      </div>
+
+      {feed.isLoading ? (
+        <LoadingState message="Loading listings..." />
+      ) : feed.error ? (
+        <ConnectionError message={feed.error} onRetry={feed.reload} />
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+          {shown.map((p) => (
+            <ProductCard
+              key={p.id}
+              product={p}
+              onClick={() => onProductClick(p.id)}
+              {...saveProps(p)}
+            />
+          ))}
+          {shown.length === 0 && !feed.hasMore && (
+            <p className="col-span-full py-20 text-center text-gray-500">
+              {tab === "active"
+                ? "No active listings right now."
+                : "Nothing sold yet."}
+            </p>
+          )}
+          <FeedFooter
+            feed={feed}
+            endMessage="That's everything they've listed."
+          />
+        </div>
+      )}
+
+      {reviews.length > 0 && (
+        <section className="mt-12 max-w-2xl">
+          <h2 className="text-2xl font-bold mb-4">Reviews</h2>
+          <div className="space-y-4">
+            {reviews.map((review) => (
+              <ReviewItem key={review.id} review={review} />
+            ))}
+          </div>
+        </section>
+      )}
+    </div>
+  );
+};
+
+const SavedPage: React.FC<{
+  favorites: Favorite[];
+  isLoading: boolean;
+  error: string | null;
+  onRetry: () => void;
+  onProductClick: (id: string) => void;
+  onToggleSave: (product: Product) => void;
+  searches: SavedSearch[];
+  onOpenSearch: (search: SavedSearch) => void;
+  onRemoveSearch: (id: string) => void;
+}> = ({
+  favorites,
+  isLoading,
+  error,
+  onRetry,
+  onProductClick,
+  onToggleSave,
+  searches,
+  onOpenSearch,
+  onRemoveSearch,
+}) => {
+  if (isLoading && favorites.length === 0)
+    return <LoadingState message="Loading your saved items..." />;
+  if (error) return <ConnectionError message={error} onRetry={onRetry} />;
+
+  return (
+    <div className="container mx-auto px-4 py-10">
+      {searches.length > 0 && (
+        <section className="mb-12">
+          <h2 className="text-2xl font-extrabold mb-2">Saved Searches</h2>
+          <p className="text-gray-500 mb-6">
+            We'll notify you when something new matches.
+          </p>
+          <div className="flex flex-wrap gap-3">
+            {searches.map((search) => (
+              <div
+                key={search.id}
+                className="flex items-center bg-white border border-gray-200 rounded-full shadow-sm"
+              >
+                <button
+                  onClick={() => onOpenSearch(search)}
+                  className="pl-4 pr-2 py-2 font-medium flex items-center gap-2 hover:text-[#044414]"
+                >
+                  {search.name}
+                  {search.newCount > 0 && (
+                    <span className="bg-yellow-400 text-[#044414] text-xs font-bold px-2 py-0.5 rounded-full">
+                      {search.newCount} new
+                    </span>
+                  )}
+                </button>
+                <button
+                  onClick={() => onRemoveSearch(search.id)}
+                  className="pr-4 pl-1 py-2 text-gray-400 hover:text-red-600"
+                  aria-label={`Delete saved search ${search.name}`}
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+      <h1 className="text-3xl font-extrabold mb-2">Saved Items</h1>
+      <p className="text-gray-500 mb-10">
+        We'll let you know when a saved item drops in price or gets sold.
+      </p>
+      {favorites.length === 0 ? (
+        <div className="py-20 text-center text-gray-500">
+          <p className="text-xl">You haven't saved anything yet.</p>
+          <button
+            onClick={() => navigate(paths.home())}
+            className="mt-4 text-[#044414] font-bold underline"
+          >
+            Browse listings
+          </button>
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
+          {favorites.map(({ product }) => (
+            <ProductCard
+              key={product.id}
+              product={product}
+              onClick={() => onProductClick(product.id)}
+              isSaved
+              onToggleSave={() => onToggleSave(product)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const InboxPage: React.FC<{
+  user: User;
+  conversationId: string | null;
+  unreadCounts: Record<string, number>;
+  onConversationRead: (conversationId: string) => void;
+}> = ({ user, conversationId, unreadCounts, onConversationRead }) => {
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadConversations = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setConversations(await chatService.fetchConversations(user.id));
+    } catch {
+      setError("Unable to load your messages. Please try again later.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadConversations();
+  }, [user.id]);
+
+  // Keep previews and ordering fresh as messages arrive
+  const handleActivity = (message: Message) => {
+    setConversations((prev) =>
+      prev
+        .map((c) =>
+          c.id === message.conversationId
+            ? {
+                ...c,
+                lastMessageAt: message.createdAt,
+                lastMessagePreview: message.body,
+              }
+            : c,
+        )
+        .sort((a, b) => b.lastMessageAt.localeCompare(a.lastMessageAt)),
+    );
+  };
+
+  const activeConversation = conversations.find((c) => c.id === conversationId);
+
+  if (isLoading) return <LoadingState message="Loading your messages..." />;
+  if (error)
+    return <ConnectionError message={error} onRetry={loadConversations} />;
+
+  return (
+    <div className="container mx-auto px-4 py-10">
+      <h1 className="text-3xl font-extrabold mb-8">Messages</h1>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div
+          className={`bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden ${conversationId ? "hidden md:block" : ""}`}
+        >
+          {conversations.length === 0 ? (
+            <p className="p-8 text-center text-gray-500 text-sm">
+              No conversations yet. Message a seller from any listing to get
+              started.
+            </p>
+          ) : (
+            conversations.map((c) => {
+              const otherName =
+                c.buyerId === user.id ? c.sellerName : c.buyerName;
+              const unread = unreadCounts[c.id] ?? 0;
+              return (
+                <button
+                  key={c.id}
+                  onClick={() =>
+                    navigate(paths.conversation(c.id), { replace: true })
+                  }
+                  className={`w-full text-left px-4 py-3 border-b border-gray-100 hover:bg-gray-50 transition-colors ${
+                    c.id === conversationId ? "bg-green-50" : ""
+                  }`}
+                >
+                  <div className="flex justify-between items-center gap-2">
+                    <span className="font-bold text-gray-800 truncate">
+                      {otherName}
+                    </span>
+                    {unread > 0 && (
+                      <span className="bg-yellow-400 text-[#044414] text-xs font-bold px-2 py-0.5 rounded-full">
+                        {unread}
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-xs text-[#044414] font-semibold truncate">
+                    {c.productTitle}
+                  </p>
+                  <p className="text-sm text-gray-500 truncate">
+                    {c.lastMessagePreview || "No messages yet"}
+                  </p>
+                </button>
+              );
+            })
+          )}
+        </div>
+        <div
+          className={`md:col-span-2 ${conversationId ? "" : "hidden md:block"}`}
+        >
+          {activeConversation ? (
+            <ConversationThread
+              key={activeConversation.id}
+              conversation={activeConversation}
+              user={user}
+              onRead={() => onConversationRead(activeConversation.id)}
+              onActivity={handleActivity}
+            />
+          ) : (
+            <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-12 text-center text-gray-500">
+              {conversationId
+                ? "This conversation could not be found."
+                : "Select a conversation to read it."}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const ConversationThread: React.FC<{
+  conversation: Conversation;
+  user: User;
+  onRead: () => void;
+  onActivity: (message: Message) => void;
+}> = ({ conversation, user, onRead, onActivity }) => {
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [draft, setDraft] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const bottomRef = React.useRef<HTMLDivElement>(null);
+
+  // Latest callbacks without re-subscribing on every render
+  const callbacksRef = React.useRef({ onRead, onActivity });
+  callbacksRef.current = { onRead, onActivity };
+
+  const addMessage = (message: Message) => {
+    setMessages((prev) =>
+      prev.some((m) => m.id === message.id) ? prev : [...prev, message],
+    );
+    callbacksRef.current.onActivity(message);
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    chatService
+      .fetchMessages(conversation.id)
+      .then((initial) => {
+        if (!cancelled) setMessages(initial);
+      })
+      .catch(() => {})
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    callbacksRef.current.onRead();
+
+    const unsubscribe = chatService.subscribeToConversation(
+      conversation.id,
+      (message) => {
+        addMessage(message);
+        if (message.recipientId === user.id) callbacksRef.current.onRead();
+      },
+    );
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [conversation.id, user.id]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [messages.length]);
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim() || isSending) return;
+    setIsSending(true);
+    const sent = await chatService.sendMessage(conversation, draft);
+    if (sent) {
+      addMessage(sent);
+      setDraft("");
+    } else {
+      alert("Message not sent. Please try again.");
+    }
+    setIsSending(false);
+  };
+
+  const otherName =
+    conversation.buyerId === user.id
+      ? conversation.sellerName
+      : conversation.buyerName;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-100 flex flex-col h-[70vh]">
+      <div className="px-6 py-4 border-b border-gray-100 flex items-center gap-3">
+        <button
+          onClick={() => navigate(paths.inbox(), { replace: true })}
+          className="md:hidden text-gray-600 font-medium"
+        >
+          ←
+        </button>
+        <div className="min-w-0">
+          <p className="font-bold text-gray-800 truncate">{otherName}</p>
+          <button
+            onClick={() => navigate(paths.product(conversation.productId))}
+            className="text-xs text-[#044414] font-semibold hover:underline truncate"
+          >
+            {conversation.productTitle}
+          </button>
+        </div>
+      </div>
+      <div className="flex-grow overflow-y-auto px-6 py-4 space-y-3">
+        {isLoading ? (
+          <div className="flex justify-center py-10">
+            <div className="spinner"></div>
+          </div>
+        ) : messages.length === 0 ? (
+          <p className="text-center text-gray-400 text-sm py-10">
+            Say hello and ask about the item.
+          </p>
+        ) : (
+          messages.map((m) => {
+            const isMine = m.senderId === user.id;
+            return (
+              <div
+                key={m.id}
+                className={`flex ${isMine ? "justify-end" : "justify-start"}`}
+              >
+                <div
+                  className={`max-w-[75%] px-4 py-2 rounded-2xl text-sm whitespace-pre-wrap break-words ${
+                    isMine
+                      ? "bg-[#044414] text-white rounded-br-sm"
+                      : "bg-gray-100 text-gray-800 rounded-bl-sm"
+                  }`}
+                >
+                  {m.body}
+                  <span
+                    className={`block text-[10px] mt-1 ${isMine ? "text-green-200" : "text-gray-400"}`}
+                  >
+                    {new Date(m.createdAt).toLocaleTimeString([], {
+                      hour: "2-digit",
+                      minute: "2-digit",
+                    })}
+                  </span>
+                </div>
+              </div>
+            );
+          })
+        )}
+        <div ref={bottomRef} />
+      </div>
+      <form
+        onSubmit={handleSend}
+        className="border-t border-gray-100 p-4 flex gap-3"
+      >
+        <input
+          type="text"
+          placeholder="Type a message..."
+          className="flex-grow px-4 py-3 rounded-xl border border-gray-200 focus:ring-2 focus:ring-[#044414] focus:outline-none"
+          value={draft}
+          maxLength={MAX_MESSAGE_LENGTH}
+          onChange={(e) => setDraft(e.target.value)}
+          disabled={isSending}
+        />
+        <button
+          type="submit"
+          disabled={isSending || !draft.trim()}
+          className="bg-[#044414] text-white px-6 rounded-xl font-bold hover:bg-green-900 transition-colors disabled:opacity-50"
+        >
+          Send
+        </button>
+      </form>
+    </div>
+  );
+};
+
+/**
+ * Expiry status with Renew and Bump actions, shown under an available or reserved listing
+ * on the dashboard
+ */
+const ListingLifecycleBar: React.FC<{
+  product: Product;
+  isBusy: boolean;
+  onRenew: () => void;
+  onBump: () => void;
+}> = ({ product, isBusy, onRenew, onBump }) => {
+  const expired = isExpired(product);
+  const daysLeft = daysUntilExpiry(product);
+  const bumpAvailableAt = nextBumpAt(product);
+
+  return (
+    <div className="mt-2 space-y-2">
+      <p
+        className={`text-xs font-medium ${
+          expired
+            ? "text-red-600"
+            : isExpiringSoon(product)
+              ? "text-yellow-700"
+              : "text-gray-500"
+        }`}
+      >
+        {expired
+          ? "Expired · hidden from buyers"
+          : `Expires in ${daysLeft} day${daysLeft === 1 ? "" : "s"}`}
+      </p>
+      <div className="flex gap-2">
+        <button
+          onClick={onRenew}
+          disabled={isBusy}
+          className="flex-1 bg-[#044414] text-white text-xs font-bold py-2 rounded-lg disabled:opacity-60"
+        >
+          Renew
+        </button>
+        {!expired && (
+          <button
+            onClick={onBump}
+            disabled={isBusy || bumpAvailableAt !== null}
+            title={
+              bumpAvailableAt
+                ? `You can bump again ${bumpAvailableAt.toLocaleString()}`
+                : "Move to the top of the newest listings"
+            }
+            className="flex-1 border border-[#044414] text-[#044414] text-xs font-bold py-2 rounded-lg disabled:opacity-50"
+          >
+            Bump to top
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Length of the daily views/contacts chart on the dashboard
+const ANALYTICS_DAYS = 30;
+
+const DashboardPage: React.FC<{
+  user: User;
+  onProductClick: (id: string) => void;
+}> = ({ user, onProductClick }) => {
+  const dashboardQuery = useMemo<ProductQuery>(
+    () => ({
+      userId: user.id,
+      statuses: Object.values(ListingStatus),
+      includeExpired: true,
+      sort: "newest",
+    }),
+    [user.id],
+  );
+  const feed = useProductFeed(dashboardQuery);
+  const products = feed.products;
+  // Listing whose renew/bump request is in flight
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [analytics, setAnalytics] = useState<SellerAnalytics | null>(null);
+  const [analyticsError, setAnalyticsError] = useState<string | null>(null);
+
+  const loadAnalytics = async () => {
+    setAnalyticsError(null);
+    try {
+      setAnalytics(await analyticsService.fetchForSeller(ANALYTICS_DAYS));
+    } catch {
+      setAnalyticsError("Unable to load your listing statistics.");
+    }
+  };
+
+  useEffect(() => {
+    loadAnalytics();
+  }, [user.id]);
+
+  const [offers, setOffers] = useState<Offer[]>([]);
+
+  const loadOffers = () => {
+    offerService
+      .fetchReceived()
+      .then(setOffers)
+      .catch(() => setOffers([]));
+  };
+
+  useEffect(loadOffers, [user.id]);
+
+  const replaceListing = (updated: Product) =>
+    feed.setProducts((prev) =>
+      prev.map((p) => (p.id === updated.id ? updated : p)),
+    );
+
+  const handleRenew = async (product: Product) => {
+    setBusyId(product.id);
+    const updated = await productService.renew(product.id);
+    setBusyId(null);
+    if (updated) replaceListing(updated);
+    else alert("Could not renew this listing. Please try again.");
+  };
+
+  const handleBump = async (product: Product) => {
+    setBusyId(product.id);
+    const updated = await productService.bump(product.id);
+    setBusyId(null);
+    if (updated) replaceListing(updated);
+    else
+      alert(
+        `Could not bump this listing. Each listing can be bumped once every ${BUMP_COOLDOWN_HOURS} hours.`,
+      );
+  };
+
+  const handleStatusChange = async (
+    product: Product,
+    status: ListingStatus,
+    buyer: SoldTo,
+  ) => {
+    const updated = await productService.setStatus(product.id, status, buyer);
+    if (updated) replaceListing(updated);
+    return updated !== null;
+  };
+
+  if (feed.isLoading) {
+    return <LoadingState message="Loading your listings..." />;
+  }
+
+  if (feed.error) {
+    return <ConnectionError message={feed.error} onRetry={feed.reload} />;
+  }
+
+  const offersAwaitingReply = offers.filter(
+    (offer) =>
+      offer.status === OfferStatus.Pending && offer.fromRole === "buyer",
+  ).length;
+
+  const needsRenewal = products.filter(
+    (p) => isExpired(p) || isExpiringSoon(p),
+  ).length;
+
+  const statsById = new Map(
+    analytics?.listings.map((stats) => [stats.productId, stats]) ?? [],
+  );
+  const totals = analytics?.listings.reduce(
+    (sum, stats) => ({
+      views: sum.views + stats.views,
+      contactClicks: sum.contactClicks + stats.contactClicks,
+    }),
+    { views: 0, contactClicks: 0 },
+  );
+  const sellTimes = (analytics?.listings ?? []).flatMap((stats) =>
+    stats.daysToSell === null ? [] : [stats.daysToSell],
+  );
+  const averageDaysToSell =
+    sellTimes.length > 0
+      ? Math.round(sellTimes.reduce((a, b) => a + b, 0) / sellTimes.length)
+      : null;
+
+  return (
+    <div className="container mx-auto px-4 py-10">
+      <h1 className="text-3xl font-extrabold mb-10">My Dashboard</h1>
+      {needsRenewal > 0 && (
+        <p className="bg-yellow-50 border border-yellow-200 text-yellow-800 text-sm px-4 py-3 rounded-xl mb-8">
+          {needsRenewal} listing{needsRenewal === 1 ? " has" : "s have"} expired
+          or will expire soon. Expired listings are hidden from buyers until you
+          renew them.
+        </p>
+      )}
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-6 mb-8">
+        <div className="bg-white p-6 rounded-2xl shadow-sm">
+          <p className="text-gray-500">Listed</p>
+          <p className="text-3xl font-bold">
+            {Object.values(feed.statusCounts).reduce((a, b) => a + b, 0)}
+          </p>
+        </div>
+        <div className="bg-white p-6 rounded-2xl shadow-sm">
+          <p className="text-gray-500">Sold</p>
+          <p className="text-3xl font-bold text-green-600">
+            {feed.statusCounts[ListingStatus.Sold]}
+          </p>
+        </div>
+        <div className="bg-white p-6 rounded-2xl shadow-sm">
+          <p className="text-gray-500">Revenue</p>
+          <p className="text-2xl font-bold text-[#044414]">
+            {analytics ? `KSh ${analytics.totalRevenue.toLocaleString()}` : "—"}
+          </p>
+        </div>
+        <div className="bg-white p-6 rounded-2xl shadow-sm">
+          <p className="text-gray-500">Views</p>
+          <p className="text-3xl font-bold">{totals?.views ?? "—"}</p>
+        </div>
+        <div className="bg-white p-6 rounded-2xl shadow-sm">
+          <p className="text-gray-500">Contact clicks</p>
+          <p className="text-3xl font-bold">{totals?.contactClicks ?? "—"}</p>
+        </div>
+        <div className="bg-white p-6 rounded-2xl shadow-sm">
+          <p className="text-gray-500">Avg. days to sell</p>
+          <p className="text-3xl font-bold">{averageDaysToSell ?? "—"}</p>
+        </div>
+      </div>
+
+      {analyticsError ? (
+        <div className="bg-white p-6 rounded-2xl shadow-sm mb-12 flex items-center justify-between gap-4">
+          <p className="text-gray-500">{analyticsError}</p>
+          <button
+            onClick={loadAnalytics}
+            className="text-[#044414] font-bold underline"
+          >
+            Retry
+          </button>
+        </div>
+      ) : (
+        analytics && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-12">
+            <div className="bg-white p-6 rounded-2xl shadow-sm">
+              <p className="text-gray-500 mb-3">Last {ANALYTICS_DAYS} days</p>
+              <TrendChart
+                labels={analytics.daily.map((day) =>
+                  new Date(day.date).toLocaleDateString(undefined, {
+                    month: "short",
+                    day: "numeric",
+                  }),
+                )}
+                series={[
+                  {
+                    label: "Views",
+                    color: "#044414",
+                    values: analytics.daily.map((day) => day.views),
+                  },
+                  {
+                    label: "Contact clicks",
+                    color: "#facc15",
+                    values: analytics.daily.map((day) => day.contactClicks),
+                  },
+                ]}
+              />
+            </div>
+            <div className="bg-white p-6 rounded-2xl shadow-sm overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2 pr-4 font-medium">Listing</th>
+                    <th className="py-2 px-2 font-medium text-right">Views</th>
+                    <th className="py-2 px-2 font-medium text-right">Clicks</th>
+                    <th className="py-2 px-2 font-medium text-right">
+                      Contacts
+                    </th>
+                    <th className="py-2 px-2 font-medium text-right">Saves</th>
+                    <th className="py-2 pl-2 font-medium text-right">
+                      Days to sell
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {products.map((p) => {
+                    const stats = statsById.get(p.id);
+                    return (
+                      <tr key={p.id} className="border-b border-gray-50">
+                        <td className="py-2 pr-4">
+                          <button
+                            onClick={() => onProductClick(p.id)}
+                            className="font-medium text-left hover:text-[#044414] line-clamp-1"
+                          >
+                            {p.title}
+                          </button>
+                        </td>
+                        <td className="py-2 px-2 text-right">
+                          {stats?.views ?? 0}
+                        </td>
+                        <td className="py-2 px-2 text-right">
+                          {stats?.cardClicks ?? 0}
+                        </td>
+                        <td className="py-2 px-2 text-right">
+                          {stats?.contactClicks ?? 0}
+                        </td>
+                        <td className="py-2 px-2 text-right">
+                          {stats?.favorites ?? 0}
+                        </td>
+                        <td className="py-2 pl-2 text-right">
+                          {stats?.daysToSell ?? "—"}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )
+      )}
+      {offers.length > 0 && (
+        <section className="mb-12">
+          <h2 className="text-2xl font-extrabold mb-2">Offers</h2>
+          <p className="text-gray-500 mb-6">
+            {offersAwaitingReply > 0
+              ? `${offersAwaitingReply} offer${offersAwaitingReply === 1 ? " is" : "s are"} waiting for your reply.`
+              : "You're up to date with your offers."}
+          </p>
+          <OfferHistory
+            offers={offers}
+            viewerId={user.id}
+            showListing
+            onOpenListing={onProductClick}
+            onChanged={loadOffers}
+            onAccepted={replaceListing}
+          />
+        </section>
+      )}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+        {products.map((p) => (
+          <div key={p.id}>
+            <ProductCard product={p} onClick={() => onProductClick(p.id)} />
+            <div className="mt-2">
+              <ListingStatusControl
+                product={p}
+                sellerId={user.id}
+                onChange={(status, buyer) =>
+                  handleStatusChange(p, status, buyer)
+                }
+                compact
+              />
+            </div>
+            {isActive(p) && (
+              <ListingLifecycleBar
+                product={p}
+                isBusy={busyId === p.id}
+                onRenew={() => handleRenew(p)}
+                onBump={() => handleBump(p)}
+              />
+            )}
+          </div>
+        ))}
+        <FeedFooter feed={feed} endMessage="That's all your listings." />
+      </div>
+    </div>
+  );
+};
+
+const SUSPENSION_OPTIONS = [1, 7, 30];
+
+const ModerationPage: React.FC<{
+  onProductClick: (id: string) => void;
+}> = ({ onProductClick }) => {
+  const [items, setItems] = useState<ModerationItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Listing currently being acted on, to disable its buttons
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadQueue = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setItems(await moderationService.fetchQueue());
+    } catch {
+      setError("Unable to load the moderation queue. Please try again later.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
-  // Debug logging
-  React.useEffect(() => {
-    validateAndLogImageState(product);
-  }, [product]);
+  useEffect(() => {
+    loadQueue();
+  }, []);
 
-  // Handle image load errors
-  const handleImageError = (index: number) => {
-    console.error(
-      `✗ Image ${index + 1} failed to load for "${product.title}"`,
-      {
-        url: validImages[index],
-      },
+  const run = async (
+    productId: string,
+    action: () => Promise<boolean>,
+    resolves: boolean,
+  ) => {
+    setBusyId(productId);
+    const ok = await action();
+    setBusyId(null);
+    if (!ok) alert("That action failed. Please try again.");
+    else if (resolves)
+      setItems((prev) => prev.filter((item) => item.product.id !== productId));
+  };
+
+  const handleRemove = (item: ModerationItem) => {
+    const note = prompt(
+      `Why is "${item.product.title}" being removed? The seller will see this.`,
+    );
+    if (note === null) return;
+    run(
+      item.product.id,
+      () => moderationService.removeListing(item.product.id, note.trim()),
+      true,
     );
   };
 
-  const goToNextImage = () => {
-    setActiveImage((prev) => (prev === validImages.length - 1 ? 0 : prev + 1));
+  const handleWarn = (item: ModerationItem) => {
+    const message = prompt(`Warning to send to ${item.product.sellerName}:`);
+    if (!message?.trim()) return;
+    run(
+      item.product.id,
+      () => moderationService.warnUser(item.product.userId, message.trim()),
+      false,
+    );
   };
 
-  const goToPreviousImage = () => {
-    setActiveImage((prev) => (prev === 0 ? validImages.length - 1 : prev - 1));
+  const handleSuspend = (item: ModerationItem, days: number) => {
+    const reason = prompt(
+      `Suspend ${item.product.sellerName} for ${days} day${days === 1 ? "" : "s"}? Reason:`,
+    );
+    if (!reason?.trim()) return;
+    run(
+      item.product.id,
+      () =>
+        moderationService.suspendUser(item.product.userId, days, reason.trim()),
+      false,
+    );
   };
 
-  const displayImage = validImages[activeImage];
+  if (isLoading) return <LoadingState message="Loading reported listings..." />;
+  if (error) return <ConnectionError message={error} onRetry={loadQueue} />;
 
   return (
     <div className="container mx-auto px-4 py-10">
-      <button
-        onClick={onBack}
-        className="flex items-center gap-2 text-gray-600 font-medium mb-8"
-      >
-        ← Back
-      </button>
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-12">
-        <div>
-          {validImages.length > 0 && displayImage ? (
-            <>
-              {/* Main image with navigation */}
-              <div className="relative">
-                <img
-                  key={displayImage}
-                  src={displayImage}
-                  alt={`${product.title} - Image ${activeImage + 1}`}
-                  className="w-full aspect-video object-cover rounded-3xl shadow-sm"
-                  crossOrigin="anonymous"
-                  onLoad={() => {
-                    console.log(
-                      `✓ Detail image ${activeImage + 1} loaded: "${product.title}"`,
-                    );
-                  }}
-                  onError={() => {
-                    handleImageError(activeImage);
-                  }}
-                />
-
-                {/* Navigation arrows (only if multiple images) */}
-                {validImages.length > 1 && (
-                  <>
+      <h1 className="text-3xl font-extrabold mb-2">Moderation Queue</h1>
+      <p className="text-gray-500 mb-10">
+        Reported listings, most reported first.
+      </p>
+      {items.length === 0 ? (
+        <p className="py-20 text-center text-gray-500">Nothing to review. 🎉</p>
+      ) : (
+        <div className="space-y-6">
+          {items.map((item) => {
+            const busy = busyId === item.product.id;
+            return (
+              <div
+                key={item.product.id}
+                className="bg-white p-6 rounded-2xl shadow-sm flex flex-col md:flex-row gap-6"
+              >
+                <div className="md:w-56 flex-shrink-0">
+                  <ProductCard
+                    product={item.product}
+                    onClick={() => onProductClick(item.product.id)}
+                  />
+                </div>
+                <div className="flex-grow">
+                  <div className="flex flex-wrap items-center gap-2 mb-3">
+                    <span className="font-bold">
+                      {item.reports.length} report
+                      {item.reports.length === 1 ? "" : "s"}
+                    </span>
+                    {item.product.isHidden && (
+                      <span className="bg-red-100 text-red-700 text-xs font-bold px-2 py-1 rounded-md">
+                        Hidden
+                      </span>
+                    )}
+                    <span className="text-gray-500 text-sm">
+                      Seller: {item.product.sellerName}
+                    </span>
+                  </div>
+                  <ul className="space-y-2 mb-6">
+                    {item.reports.map((report) => (
+                      <li key={report.id} className="text-sm">
+                        <span className="font-semibold">
+                          {REPORT_REASON_LABELS[report.reason]}
+                        </span>
+                        {report.details && (
+                          <span className="text-gray-600">
+                            {" "}
+                            — {report.details}
+                          </span>
+                        )}
+                        <span className="text-gray-400">
+                          {" "}
+                          · {new Date(report.createdAt).toLocaleDateString()}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                  <div className="flex flex-wrap gap-2">
                     <button
-                      onClick={goToPreviousImage}
-                      className="absolute left-4 top-1/2 -translate-y-1/2 bg-black/60 hover:bg-black/80 text-white p-3 rounded-full transition-all"
-                      aria-label="Previous image"
+                      disabled={busy}
+                      onClick={() =>
+                        run(
+                          item.product.id,
+                          () =>
+                            moderationService.restoreListing(item.product.id),
+                          true,
+                        )
+                      }
+                      className="bg-[#044414] text-white px-4 py-2 rounded-lg font-bold text-sm disabled:opacity-60"
                     >
-                      <svg
-                        className="w-6 h-6"
-                        fill="none"
-                        stroke="currentColor"
-                        viewBox="0 0 24 24"
-                      >
-                        <path
-                          strokeLinecap="round"
-                          strokeLinejoin="round"
-                          strokeWidth={2}
-                          d="M15 19l-7-7 7-7"
-                        />
-                      </svg>
+                      Restore
                     </button>
                     <button
-                      onClick={goToNextImage}
-                      className="absolute right-4 top-1/2 -translate-y-1/2 bg-black/60 hover:bg-black/80 text-white p-3 rounded-full transition-all"
-                      aria-label="Next image"
+                      disabled={busy}
+                      onClick={() => handleRemove(item)}
+                      className="bg-red-600 text-white px-4 py-2 rounded-lg font-bold text-sm disabled:opacity-60"
                     >
-                      <svg
-                        className="w-6 h-6"
-                        fill="none"
-                        stroke="currentColor"
-                        viewBox="0 0 24 24"
-                      >
-                        <path
-                          strokeLinecap="round"
-                          strokeLinejoin="round"
-                          strokeWidth={2}
-                          d="M9 5l7 7-7 7"
-                        />
-                      </svg>
+                      Remove listing
                     </button>
-                  </>
-                )}
-
-                {/* Image counter */}
-                {validImages.length > 1 && (
-                  <div className="absolute top-4 right-4 bg-black/70 text-white px-3 py-1 rounded-full text-sm font-bold">
-                    {activeImage + 1}/{validImages.length}
-                  </div>
-                )}
-              </div>
-
-              {/* Thumbnail gallery */}
-              {validImages.length > 1 && (
-                <div className="flex gap-2 mt-4 overflow-x-auto pb-2">
-                  {validImages.map((img, i) => (
                     <button
-                      key={i}
-                      onClick={() => setActiveImage(i)}
-                      className={`flex-shrink-0 w-24 h-24 rounded-lg overflow-hidden border-2 transition-all ${
-                        activeImage === i
-                          ? "border-[#044414] ring-2 ring-[#044414]"
-                          : "border-gray-200 hover:border-gray-300"
-                      }`}
-                      aria-label={`View image ${i + 1}`}
+                      disabled={busy}
+                      onClick={() => handleWarn(item)}
+                      className="border border-gray-200 text-gray-700 px-4 py-2 rounded-lg font-bold text-sm disabled:opacity-60"
                     >
-                      <img
-                        src={img}
-                        alt={`Thumbnail ${i + 1}`}
-                        className="w-full h-full object-cover"
-                        crossOrigin="anonymous"
-                        onError={() => {
-                          console.warn(`Thumbnail ${i + 1} failed to load`);
-                        }}
-                      />
+                      Warn seller
                     </button>
-                  ))}
+                    {SUSPENSION_OPTIONS.map((days) => (
+                      <button
+                        key={days}
+                        disabled={busy}
+                        onClick={() => handleSuspend(item, days)}
+                        className="border border-red-200 text-red-600 px-4 py-2 rounded-lg font-bold text-sm disabled:opacity-60"
+                      >
+                        Suspend {days}d
+                      </button>
+                    ))}
+                  </div>
                 </div>
-              )}
-            </>
-          ) : (
-            /* Fallback placeholder */
-            <div className="w-full aspect-video bg-gradient-to-br from-gray-200 to-gray-300 rounded-3xl flex flex-col items-center justify-center">
-              <svg
-                className="w-16 h-16 text-gray-400 mb-3"
-                fill="none"
-                stroke="currentColor"
-                viewBox="0 0 24 24"
-              >
-                <path
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  strokeWidth={1.5}
-                  d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z"
-                />
-              </svg>
-              <span className="text-gray-500 text-lg font-medium">
-                No images available
-              </span>
-            </div>
-          )}
-        </div>
-        <div>
-          <h1 className="text-4xl font-extrabold mb-2">{product.title}</h1>
-          <p className="text-3xl font-bold text-[#044414] mb-8">
-            KSh {product.price.toLocaleString()}
-          </p>
-          <p className="text-gray-600 mb-10">{product.description}</p>
-          {isOwner ? (
-            <div className="grid grid-cols-2 gap-4">
-              <button
-                onClick={() => onMarkAsSold(product.id)}
-                disabled={product.isSold}
-                className={`py-4 rounded-xl font-bold ${product.isSold ? "bg-gray-100 text-gray-400" : "bg-[#044414] text-white"}`}
-              >
-                {product.isSold ? "Sold" : "Mark as Sold"}
-              </button>
-              <button
-                onClick={() => onDelete(product.id)}
-                className="border border-red-200 text-red-600 py-4 rounded-xl font-bold"
-              >
-                Delete
-              </button>
-            </div>
-          ) : (
-            <a
-              href={whatsappLink}
-              target="_blank"
-              className="bg-[#25D366] text-white py-4 rounded-xl font-bold w-full flex justify-center"
-            >
-              Chat on WhatsApp
-            </a>
-          )}
+              </div>
+            );
+          })}
         </div>
-      </div>
+      )}
     </div>
   );
 };
 
-const DashboardPage: React.FC<{
-  user: User;
-  products: Product[];
-  onProductClick: (id: string) => void;
-}> = ({ products, onProductClick }) => {
+// Accepts a bare listing id or a pasted listing link
+const listingIdFromInput = (input: string): string | null => {
+  const value = input.trim();
+  if (!value) return null;
+  if (!value.includes("/")) return value;
+  let pathname: string;
+  try {
+    pathname = new URL(value, window.location.origin).pathname;
+  } catch {
+    return null;
+  }
+  const route = parseRoute(pathname);
+  return route.page === "product-detail" || route.page === "edit"
+    ? route.productId
+    : null;
+};
+
+const AdminPage: React.FC<{
+  currentUserId: string;
+  categorySettings: CategorySetting[];
+  onToggleCategory: (category: Category, enabled: boolean) => Promise<boolean>;
+}> = ({ currentUserId, categorySettings, onToggleCategory }) => {
+  const [stats, setStats] = useState<MarketplaceStats | null>(null);
+  const [statsError, setStatsError] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const [users, setUsers] = useState<User[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [listingInput, setListingInput] = useState("");
+
+  const loadStats = async () => {
+    setStatsError(null);
+    try {
+      setStats(await adminService.fetchStats());
+    } catch {
+      setStatsError("Unable to load statistics.");
+    }
+  };
+
+  useEffect(() => {
+    loadStats();
+  }, []);
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSearching(true);
+    try {
+      setUsers(await adminService.searchUsers(search));
+    } catch {
+      alert("User search failed. Please try again.");
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const updateUser = (id: string, changes: Partial<User>) =>
+    setUsers(
+      (prev) =>
+        prev?.map((u) => (u.id === id ? { ...u, ...changes } : u)) ?? null,
+    );
+
+  const handleRoleChange = async (target: User, role: UserRole) => {
+    if (!confirm(`Make ${target.fullName} a ${role}?`)) return;
+    if (await adminService.setRole(target.id, role))
+      updateUser(target.id, { role });
+    else alert("Couldn't change the role. Please try again.");
+  };
+
+  const handleSuspend = async (target: User) => {
+    const days = Number(
+      prompt(`Suspend ${target.fullName} for how many days?`, "7"),
+    );
+    if (!Number.isInteger(days) || days <= 0) return;
+    const reason = prompt("Reason (shown to the user):");
+    if (!reason?.trim()) return;
+    if (await moderationService.suspendUser(target.id, days, reason.trim()))
+      updateUser(target.id, {
+        suspendedUntil: new Date(
+          Date.now() + days * 24 * 60 * 60 * 1000,
+        ).toISOString(),
+      });
+    else alert("Couldn't suspend this user. Please try again.");
+  };
+
+  const handleLiftSuspension = async (target: User) => {
+    if (await adminService.liftSuspension(target.id))
+      updateUser(target.id, { suspendedUntil: null });
+    else alert("Couldn't lift the suspension. Please try again.");
+  };
+
+  const handleRemoveListing = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const productId = listingIdFromInput(listingInput);
+    if (!productId) {
+      alert("Enter a listing id or a link to a listing.");
+      return;
+    }
+    const note = prompt(
+      "Why is this listing being removed? The seller will see this.",
+    );
+    if (note === null) return;
+    if (await moderationService.removeListing(productId, note.trim())) {
+      setListingInput("");
+      alert("Listing removed.");
+    } else {
+      alert("Couldn't remove that listing. Check the id and try again.");
+    }
+  };
+
+  const maxCategoryCount = Math.max(
+    1,
+    ...(stats?.listingsByCategory.map((c) => c.count) ?? []),
+  );
+  const maxSignups = Math.max(
+    1,
+    ...(stats?.signupsPerWeek.map((w) => w.count) ?? []),
+  );
+
   return (
-    <div className="container mx-auto px-4 py-10">
-      <h1 className="text-3xl font-extrabold mb-10">My Dashboard</h1>
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-12">
-        <div className="bg-white p-6 rounded-2xl shadow-sm">
-          <p className="text-gray-500">Listed</p>
-          <p className="text-3xl font-bold">{products.length}</p>
-        </div>
-        <div className="bg-white p-6 rounded-2xl shadow-sm">
-          <p className="text-gray-500">Sold</p>
-          <p className="text-3xl font-bold text-green-600">
-            {products.filter((p) => p.isSold).length}
-          </p>
-        </div>
-      </div>
-      <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
-        {products.map((p) => (
-          <ProductCard
-            key={p.id}
-            product={p}
-            onClick={() => onProductClick(p.id)}
+    <div className="container mx-auto px-4 py-10 space-y-10">
+      <h1 className="text-3xl font-extrabold">Admin Console</h1>
+
+      <section>
+        <h2 className="text-xl font-bold mb-4">Marketplace statistics</h2>
+        {statsError ? (
+          <ConnectionError message={statsError} onRetry={loadStats} />
+        ) : !stats ? (
+          <LoadingState message="Loading statistics..." />
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="bg-white p-6 rounded-2xl shadow-sm space-y-4">
+              <div>
+                <p className="text-gray-500">Listings</p>
+                <p className="text-3xl font-bold">{stats.totalListings}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">Sold ratio</p>
+                <p className="text-3xl font-bold text-green-600">
+                  {stats.totalListings > 0
+                    ? Math.round(
+                        (stats.soldListings / stats.totalListings) * 100,
+                      )
+                    : 0}
+                  %
+                </p>
+                <p className="text-xs text-gray-400">
+                  {stats.soldListings} sold
+                </p>
+              </div>
+            </div>
+            <div className="bg-white p-6 rounded-2xl shadow-sm">
+              <p className="text-gray-500 mb-3">Listings per category</p>
+              <div className="space-y-2">
+                {stats.listingsByCategory.map(({ category, count }) => (
+                  <div key={category} className="text-sm">
+                    <div className="flex justify-between">
+                      <span>{category}</span>
+                      <span className="font-bold">{count}</span>
+                    </div>
+                    <div className="h-2 bg-gray-100 rounded-full">
+                      <div
+                        className="h-2 bg-[#044414] rounded-full"
+                        style={{
+                          width: `${(count / maxCategoryCount) * 100}%`,
+                        }}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className="bg-white p-6 rounded-2xl shadow-sm">
+              <p className="text-gray-500 mb-3">New signups per week</p>
+              <div className="flex items-end gap-1 h-40">
+                {stats.signupsPerWeek.map(({ weekStart, count }) => (
+                  <div
+                    key={weekStart}
+                    className="flex-1 bg-yellow-400 rounded-t"
+                    style={{ height: `${(count / maxSignups) * 100}%` }}
+                    title={`Week of ${new Date(weekStart).toLocaleDateString()}: ${count}`}
+                  />
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+      </section>
+
+      <section className="bg-white p-6 rounded-2xl shadow-sm">
+        <h2 className="text-xl font-bold mb-4">Users</h2>
+        <form onSubmit={handleSearch} className="flex gap-2 mb-4">
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search by name or email"
+            className="flex-grow px-4 py-2 rounded-lg border border-gray-200 focus:border-[#044414] focus:outline-none"
           />
-        ))}
+          <button
+            type="submit"
+            disabled={isSearching || !search.trim()}
+            className="bg-[#044414] text-white px-6 py-2 rounded-lg font-bold disabled:opacity-60"
+          >
+            {isSearching ? "Searching..." : "Search"}
+          </button>
+        </form>
+        {users && users.length === 0 && (
+          <p className="text-gray-500 text-sm">No users found.</p>
+        )}
+        {users && users.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2">Name</th>
+                  <th>Email</th>
+                  <th>Role</th>
+                  <th>Status</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {users.map((u) => {
+                  const isSelf = u.id === currentUserId;
+                  const suspended = authService.isSuspended(u);
+                  return (
+                    <tr key={u.id} className="border-b last:border-0">
+                      <td className="py-2 font-semibold">{u.fullName}</td>
+                      <td>{u.email}</td>
+                      <td>
+                        <select
+                          value={u.role}
+                          disabled={isSelf}
+                          onChange={(e) =>
+                            handleRoleChange(u, e.target.value as UserRole)
+                          }
+                          className="border border-gray-200 rounded-lg px-2 py-1"
+                        >
+                          {Object.values(UserRole).map((role) => (
+                            <option key={role} value={role}>
+                              {role}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                      <td>
+                        {suspended ? (
+                          <span className="text-red-600">
+                            Suspended until{" "}
+                            {new Date(u.suspendedUntil!).toLocaleDateString()}
+                          </span>
+                        ) : (
+                          "Active"
+                        )}
+                      </td>
+                      <td className="text-right">
+                        {!isSelf &&
+                          (suspended ? (
+                            <button
+                              onClick={() => handleLiftSuspension(u)}
+                              className="text-[#044414] font-bold"
+                            >
+                              Lift suspension
+                            </button>
+                          ) : (
+                            <button
+                              onClick={() => handleSuspend(u)}
+                              className="text-red-600 font-bold"
+                            >
+                              Suspend
+                            </button>
+                          ))}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <section className="bg-white p-6 rounded-2xl shadow-sm">
+          <h2 className="text-xl font-bold mb-1">Remove a listing</h2>
+          <p className="text-gray-500 text-sm mb-4">
+            Removes any listing immediately, reported or not.
+          </p>
+          <form onSubmit={handleRemoveListing} className="flex gap-2">
+            <input
+              type="text"
+              value={listingInput}
+              onChange={(e) => setListingInput(e.target.value)}
+              placeholder="Listing link or id"
+              className="flex-grow px-4 py-2 rounded-lg border border-gray-200 focus:border-[#044414] focus:outline-none"
+            />
+            <button
+              type="submit"
+              className="bg-red-600 text-white px-4 py-2 rounded-lg font-bold"
+            >
+              Remove
+            </button>
+          </form>
+        </section>
+
+        <section className="bg-white p-6 rounded-2xl shadow-sm">
+          <h2 className="text-xl font-bold mb-1">Categories</h2>
+          <p className="text-gray-500 text-sm mb-4">
+            Disabled categories stay browsable but accept no new listings.
+          </p>
+          <div className="grid grid-cols-2 gap-2">
+            {categorySettings.map(({ category, enabled }) => (
+              <label
+                key={category}
+                className="flex items-center gap-2 text-sm cursor-pointer"
+              >
+                <input
+                  type="checkbox"
+                  checked={enabled}
+                  onChange={async (e) => {
+                    if (!(await onToggleCategory(category, e.target.checked)))
+                      alert("Couldn't update the category. Please try again.");
+                  }}
+                  className="accent-[#044414]"
+                />
+                {category}
+              </label>
+            ))}
+          </div>
+        </section>
       </div>
     </div>
   );
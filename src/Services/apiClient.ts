@@ -0,0 +1,128 @@
+/**
+ * Typed API client
+ * Single place where requests to the marketplace backend are made: adds the
+ * session token, handles rejected sessions and validates response bodies.
+ */
+
+import { getAuthToken } from '../store';
+import { Schema, parse } from './schemas';
+
+// API Base URL - uses environment variable or defaults to local backend
+export const API_BASE_URL = (
+  import.meta.env.VITE_API_BASE_URL || 'https://kimathimarket-backend-v3.onrender.com'
+).replace(/\/+$/, '');
+
+/**
+ * Non-2xx response from the backend
+ */
+export class ApiError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+    public readonly body: unknown = null
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// Called when the backend rejects the session token (401)
+let unauthorizedHandler: (() => void) | null = null;
+
+export const setUnauthorizedHandler = (handler: (() => void) | null) => {
+  unauthorizedHandler = handler;
+};
+
+// Called with the backend's reason when it refuses an action (403). The token
+// is fine but the user may not do this (role, suspension, unverified email),
+// so the session is kept.
+let forbiddenHandler: ((message: string) => void) | null = null;
+
+export const setForbiddenHandler = (handler: ((message: string) => void) | null) => {
+  forbiddenHandler = handler;
+};
+
+interface RequestOptions<T> {
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  // Plain objects are sent as JSON; FormData is sent as multipart
+  body?: FormData | object;
+  query?: URLSearchParams;
+  // Attach the session token (required for every mutating request)
+  auth?: boolean;
+  // What a 401 or 403 means: by default the user is signed out (401) or told
+  // they aren't allowed (403); 'throw' leaves both to the caller, for
+  // endpoints that also answer them to a wrong password
+  onUnauthorized?: 'sign-out' | 'throw';
+  // Validates the response body; omit for endpoints whose body is ignored
+  schema?: Schema<T>;
+}
+
+const readBody = async (response: Response): Promise<unknown> => {
+  const text = await response.text();
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+const errorMessage = (body: unknown, fallback: string): string => {
+  if (body && typeof body === 'object' && 'detail' in body) {
+    const { detail } = body as { detail: unknown };
+    if (typeof detail === 'string') return detail;
+  }
+  return fallback;
+};
+
+/**
+ * Sends a request to the backend
+ * @param path - Path relative to API_BASE_URL, e.g. "/products"
+ * @returns The validated body, or undefined when no schema is given
+ * @throws ApiError for non-2xx responses, SchemaError for unusable bodies
+ */
+export const apiRequest = async <T = void>(
+  path: string,
+  {
+    method = 'GET',
+    body,
+    query,
+    auth = false,
+    onUnauthorized = 'sign-out',
+    schema,
+  }: RequestOptions<T> = {}
+): Promise<T> => {
+  const headers: Record<string, string> = {};
+  const token = auth ? getAuthToken() : null;
+  if (token) headers.Authorization = `Bearer ${token}`;
+
+  let payload: BodyInit | undefined;
+  if (body instanceof FormData) {
+    payload = body;
+  } else if (body !== undefined) {
+    headers['Content-Type'] = 'application/json';
+    payload = JSON.stringify(body);
+  }
+
+  const search = query?.toString();
+  const url = `${API_BASE_URL}${path}${search ? `?${search}` : ''}`;
+  const response = await fetch(url, { method, headers, body: payload });
+  const data = await readBody(response);
+
+  if (!response.ok) {
+    if (auth && response.status === 401 && onUnauthorized === 'sign-out') {
+      console.warn(`${method} ${path} rejected with ${response.status}; signing out`);
+      unauthorizedHandler?.();
+    }
+    if (auth && response.status === 403 && onUnauthorized === 'sign-out') {
+      forbiddenHandler?.(errorMessage(data, "You're not allowed to do this."));
+    }
+    throw new ApiError(
+      response.status,
+      errorMessage(data, `${method} ${path} failed with status ${response.status}`),
+      data
+    );
+  }
+
+  return (schema ? parse(schema, data, `${method} ${path}`) : undefined) as T;
+};
@@ -0,0 +1,234 @@
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '../../lib/supabase';
+import { Conversation, Message, Product, ResponseStats, User } from '../types';
+
+// Table definitions live in supabase/messaging.sql
+
+interface ConversationRow {
+  id: string;
+  product_id: string;
+  product_title: string;
+  buyer_id: string;
+  buyer_name: string;
+  seller_id: string;
+  seller_name: string;
+  last_message_at: string;
+  last_message_preview: string;
+  created_at: string;
+}
+
+interface MessageRow {
+  id: string;
+  conversation_id: string;
+  sender_id: string;
+  recipient_id: string;
+  body: string;
+  created_at: string;
+  read_at: string | null;
+}
+
+const toConversation = (row: ConversationRow): Conversation => ({
+  id: row.id,
+  productId: row.product_id,
+  productTitle: row.product_title,
+  buyerId: row.buyer_id,
+  buyerName: row.buyer_name,
+  sellerId: row.seller_id,
+  sellerName: row.seller_name,
+  lastMessageAt: row.last_message_at,
+  lastMessagePreview: row.last_message_preview,
+  createdAt: row.created_at,
+});
+
+const toMessage = (row: MessageRow): Message => ({
+  id: row.id,
+  conversationId: row.conversation_id,
+  senderId: row.sender_id,
+  recipientId: row.recipient_id,
+  body: row.body,
+  createdAt: row.created_at,
+  readAt: row.read_at,
+});
+
+export const MAX_MESSAGE_LENGTH = 2000;
+
+export const chatService = {
+  /**
+   * Finds the buyer's thread for a listing, creating it on first contact
+   */
+  async getOrCreateConversation(product: Product, buyer: User): Promise<Conversation | null> {
+    try {
+      const { data: existing, error: lookupError } = await supabase
+        .from('conversations')
+        .select('*')
+        .eq('product_id', product.id)
+        .eq('buyer_id', buyer.id)
+        .maybeSingle<ConversationRow>();
+      if (lookupError) throw lookupError;
+      if (existing) return toConversation(existing);
+
+      // Seller, title and buyer are filled in by the database (see
+      // fill_conversation_parties in supabase/messaging.sql)
+      const { data, error } = await supabase
+        .from('conversations')
+        .insert({ product_id: product.id })
+        .select('*')
+        .single<ConversationRow>();
+      if (error) throw error;
+      return toConversation(data);
+    } catch (error) {
+      console.error('Error opening conversation:', error);
+      return null;
+    }
+  },
+
+  async fetchConversations(userId: string): Promise<Conversation[]> {
+    const { data, error } = await supabase
+      .from('conversations')
+      .select('*')
+      .or(`buyer_id.eq.${userId},seller_id.eq.${userId}`)
+      .order('last_message_at', { ascending: false })
+      .returns<ConversationRow[]>();
+    if (error) {
+      console.error('Error fetching conversations:', error);
+      throw error;
+    }
+    return data.map(toConversation);
+  },
+
+  async fetchMessages(conversationId: string): Promise<Message[]> {
+    const { data, error } = await supabase
+      .from('messages')
+      .select('*')
+      .eq('conversation_id', conversationId)
+      .order('created_at', { ascending: true })
+      .returns<MessageRow[]>();
+    if (error) {
+      console.error('Error fetching messages:', error);
+      throw error;
+    }
+    return data.map(toMessage);
+  },
+
+  /**
+   * Sends a message as the signed-in user. Sender and recipient are filled in
+   * by the database from the messaging token, not taken from the client.
+   */
+  async sendMessage(conversation: Conversation, body: string): Promise<Message | null> {
+    const text = body.trim().slice(0, MAX_MESSAGE_LENGTH);
+    if (!text) return null;
+
+    try {
+      const { data, error } = await supabase
+        .from('messages')
+        .insert({ conversation_id: conversation.id, body: text })
+        .select('*')
+        .single<MessageRow>();
+      if (error) throw error;
+      return toMessage(data);
+    } catch (error) {
+      console.error('Error sending message:', error);
+      return null;
+    }
+  },
+
+  /**
+   * Marks everything the user has received in a thread as read
+   */
+  async markRead(conversationId: string, userId: string): Promise<boolean> {
+    const { error } = await supabase
+      .from('messages')
+      .update({ read_at: new Date().toISOString() })
+      .eq('conversation_id', conversationId)
+      .eq('recipient_id', userId)
+      .is('read_at', null);
+    if (error) console.error('Error marking messages read:', error);
+    return !error;
+  },
+
+  /**
+   * Unread message counts for the user, keyed by conversation id
+   */
+  async fetchUnreadCounts(userId: string): Promise<Record<string, number>> {
+    const { data, error } = await supabase
+      .from('messages')
+      .select('conversation_id')
+      .eq('recipient_id', userId)
+      .is('read_at', null)
+      .returns<Pick<MessageRow, 'conversation_id'>[]>();
+    if (error) {
+      console.error('Error fetching unread counts:', error);
+      return {};
+    }
+    return data.reduce<Record<string, number>>((counts, row) => {
+      counts[row.conversation_id] = (counts[row.conversation_id] ?? 0) + 1;
+      return counts;
+    }, {});
+  },
+
+  /**
+   * Reply stats shown on a seller's public profile. Computed by the
+   * seller_response_stats function so visitors never read the messages.
+   */
+  async fetchResponseStats(sellerId: string): Promise<ResponseStats | null> {
+    const { data, error } = await supabase
+      .rpc('seller_response_stats', { seller: sellerId })
+      .single<{
+        conversations: number;
+        replied: number;
+        median_response_minutes: number | null;
+      }>();
+    if (error) {
+      console.error('Error fetching response stats:', error);
+      return null;
+    }
+    return {
+      conversations: data.conversations,
+      responseRate: data.conversations > 0 ? data.replied / data.conversations : 0,
+      medianResponseMinutes: data.median_response_minutes,
+    };
+  },
+
+  /**
+   * Streams new messages delivered to the user, across all their threads
+   * @returns Unsubscribe function
+   */
+  subscribeToInbox(userId: string, onMessage: (message: Message) => void): () => void {
+    return subscribe(`inbox:${userId}`, `recipient_id=eq.${userId}`, onMessage);
+  },
+
+  /**
+   * Streams every new message in one thread, including the user's own
+   * messages sent from another tab or device
+   * @returns Unsubscribe function
+   */
+  subscribeToConversation(
+    conversationId: string,
+    onMessage: (message: Message) => void
+  ): () => void {
+    return subscribe(
+      `conversation:${conversationId}`,
+      `conversation_id=eq.${conversationId}`,
+      onMessage
+    );
+  },
+};
+
+const subscribe = (
+  channelName: string,
+  filter: string,
+  onMessage: (message: Message) => void
+): (() => void) => {
+  const channel: RealtimeChannel = supabase
+    .channel(channelName)
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'messages', filter },
+      (payload) => onMessage(toMessage(payload.new as MessageRow))
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
@@ -1,140 +1,711 @@
 
-import { Product, User } from '../types';
+import {
+  AuthSession,
+  Category,
+  CategorySetting,
+  Favorite,
+  ListingEventType,
+  ListingInput,
+  ListingStatus,
+  MarketplaceStats,
+  ModerationItem,
+  Offer,
+  Product,
+  ProductPage,
+  ProductQuery,
+  PublicProfile,
+  ReportReason,
+  Review,
+  SellerAnalytics,
+  User,
+  UserRole,
+} from '../types';
+import { getStoredSession } from '../store';
+import { ACTIVE_STATUSES } from '../utils/listingStatus';
+import { ApiError, apiRequest } from './apiClient';
+import {
+  arrayOf,
+  categorySettingSchema,
+  favoriteSchema,
+  isoDate,
+  marketplaceStatsSchema,
+  moderationItemSchema,
+  object,
+  offerSchema,
+  productPageSchema,
+  productSchema,
+  publicProfileSchema,
+  reviewSchema,
+  SchemaError,
+  sellerAnalyticsSchema,
+  string,
+  userSchema,
+} from './schemas';
 
-// API Base URL - uses environment variable or defaults to local backend
-const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'https://kimathimarket-backend-v3.onrender.com/';
+export { setForbiddenHandler, setUnauthorizedHandler } from './apiClient';
+
+// Number of listings requested per feed page
+const PAGE_SIZE = 24;
+
+const ROLE_RANK: Record<UserRole, number> = {
+  [UserRole.Student]: 0,
+  [UserRole.Moderator]: 1,
+  [UserRole.Admin]: 2,
+};
+
+// How a listing submission went. Network failures and 5xx responses are
+// "unreachable" and worth retrying; 4xx responses mean the listing itself was
+// refused and sending it again won't help.
+export type CreateOutcome = 'created' | 'unreachable' | 'rejected';
+
+// Expected login response: { user: User, token: string }
+const authSessionSchema = object<AuthSession>({
+  user: userSchema,
+  token: string(),
+});
+
+// Short-lived Supabase JWT for messaging, signed by the backend for the
+// signed-in user (see supabase/messaging.sql)
+export interface MessagingToken {
+  token: string;
+  expiresAt: string;
+}
+
+const messagingTokenSchema = object<MessagingToken>({
+  token: string(),
+  expiresAt: isoDate(),
+});
 
 export const productService = {
-  async fetchAll(): Promise<Product[]> {
-    try {
-      const response = await fetch(`${API_BASE_URL}/products`);
-      if (!response.ok) throw new Error('Failed to fetch products');
-      const data = await response.json();
-      
-      // Comprehensive debug logging
-      console.log('=== BACKEND RESPONSE ===');
-      console.log('Total products received:', data.length);
-      console.table(data.map((p: Product) => ({
-        title: p.title,
-        imageCount: p.images?.length || 0,
-        imageUrls: p.images?.join(', ') || 'NONE',
-        isSold: p.isSold,
-      })));
-      
-      // Detailed per-product logging
-      data.forEach((product: Product, idx: number) => {
-        console.group(`Product ${idx + 1}: "${product.title}"`);
-        console.log('Full product object:', product);
-        console.log('Images array:', product.images);
-        console.log('Images array is null/undefined?', product.images === null || product.images === undefined);
-        console.log('Images array length:', product.images?.length);
-        if (product.images && product.images.length > 0) {
-          product.images.forEach((url, i) => {
-            console.log(`  Image ${i + 1}:`, url);
-          });
-        } else {
-          console.warn('  ⚠️ NO IMAGES FOUND FOR THIS PRODUCT');
-        }
-        console.groupEnd();
-      });
-      
-      return data;
+  async fetchPage(
+    query: ProductQuery = {},
+    cursor: string | null = null,
+    limit = PAGE_SIZE
+  ): Promise<ProductPage> {
+    const params = new URLSearchParams();
+    if (query.search?.trim()) params.set('search', query.search.trim());
+    if (query.category) params.set('category', query.category);
+    if (query.minPrice !== undefined) params.set('minPrice', String(query.minPrice));
+    if (query.maxPrice !== undefined) params.set('maxPrice', String(query.maxPrice));
+    query.conditions?.forEach((condition) => params.append('condition', condition));
+    Object.entries(query.attributes ?? {}).forEach(([key, value]) =>
+      params.set(`attr.${key}`, value)
+    );
+    query.unitCodes?.forEach((code) => params.append('unit', code));
+    if (query.userId) params.set('userId', query.userId);
+    params.set('sort', query.sort ?? 'newest');
+    (query.statuses ?? ACTIVE_STATUSES).forEach((status) => params.append('status', status));
+    params.set('includeExpired', String(query.includeExpired ?? false));
+    params.set('limit', String(limit));
+    if (cursor) params.set('cursor', cursor);
+
+    // Expired and withdrawn listings are only returned to their owner, who
+    // is identified by the token; one seller's listings may include them
+    const auth = Boolean(
+      query.userId || query.includeExpired || query.statuses?.includes(ListingStatus.Withdrawn)
+    );
+
+    try {
+      return await apiRequest('/products', {
+        query: params,
+        auth,
+        schema: productPageSchema,
+      });
     } catch (error) {
       console.error('Error fetching products:', error);
-      return [];
+      throw error;
     }
   },
 
-  async create(
-    product: Omit<Product,
-      'id' | 'createdAt' | 'updatedAt' |
-        'sellerName' | 'sellerPhone'
-    >,
-    user: User
-  ): Promise<boolean> {
+  async fetchById(id: string): Promise<Product | null> {
+    try {
+      return await apiRequest(`/products/${encodeURIComponent(id)}`, { schema: productSchema });
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 404) return null;
+      console.error('Error fetching product:', error);
+      throw error;
+    }
+  },
+
+  async create(product: ListingInput & { images: File[] }): Promise<CreateOutcome> {
     try {
       const formData = new FormData();
 
-      // Text fields - match backend expectations exactly
-      formData.append('userId', user.id);
+      // Text fields - match backend expectations exactly. The seller is taken
+      // from the session token, never from the form.
       formData.append('title', product.title);
       formData.append('description', product.description);
       formData.append('price', String(product.price));
+      formData.append('isFirmPrice', String(product.isFirmPrice));
       formData.append('category', product.category);
       formData.append('condition', product.condition);
+      formData.append('attributes', JSON.stringify(product.attributes));
+      formData.append('unitCodes', JSON.stringify(product.unitCodes));
+      formData.append('allowWhatsapp', String(product.allowWhatsapp));
 
       // Images - append each File object
-      if (product.images && product.images.length > 0) {
-        product.images.forEach((image: any) => {
-          if (image instanceof File) {
-            formData.append('images', image);
-          }
-        });
-      }
+      product.images.forEach((image) => formData.append('images', image));
 
-      const response = await fetch(`${API_BASE_URL}/products`, {
+      await apiRequest('/products', {
         method: 'POST',
         body: formData,
+        auth: true,
+        schema: productSchema,
+      });
+      return 'created';
+    } catch (error) {
+      // A 2xx with an unexpected body still means the listing exists; failing
+      // here would make the outbox post it again
+      if (error instanceof SchemaError) {
+        console.warn('Product created, but the response was not a product:', error);
+        return 'created';
+      }
+      console.error('Error creating product:', error);
+      return error instanceof ApiError && error.status < 500 ? 'rejected' : 'unreachable';
+    }
+  },
+
+  async update(
+    id: string,
+    patch: Partial<ListingInput> & {
+      // Already-uploaded image URLs the seller chose to keep
+      existingImages?: string[];
+      // New photos to upload alongside the kept ones
+      newImages?: File[];
+    }
+  ): Promise<boolean> {
+    try {
+      const formData = new FormData();
+      const { existingImages, newImages, attributes, unitCodes, ...fields } = patch;
+
+      Object.entries(fields).forEach(([key, value]) => {
+        if (value !== undefined) formData.append(key, String(value));
       });
+      if (attributes) formData.append('attributes', JSON.stringify(attributes));
+      if (unitCodes) formData.append('unitCodes', JSON.stringify(unitCodes));
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        console.error('Backend error:', errorData);
-        return false;
+      // Sent as JSON so an empty list (all photos removed) is distinguishable
+      // from "images untouched"
+      if (existingImages) {
+        formData.append('existingImages', JSON.stringify(existingImages));
       }
+      newImages?.forEach((image) => formData.append('images', image));
 
-      const result = await response.json();
-      console.log('Product created:', result);
+      formData.append('updatedAt', new Date().toISOString());
+
+      await apiRequest(`/products/${encodeURIComponent(id)}`, {
+        method: 'PATCH',
+        body: formData,
+        auth: true,
+      });
       return true;
     } catch (error) {
-      console.error('Error creating product:', error);
+      console.error('Error updating product:', error);
       return false;
     }
   },
 
-  async markAsSold(id: string): Promise<boolean> {
+  /**
+   * Moves a listing to another status; the backend records when. When
+   * marking it sold the buyer can be recorded so both sides can review each
+   * other; buyerEmail is resolved to an account server-side.
+   * @returns The updated listing, or null on failure
+   */
+  async setStatus(
+    id: string,
+    status: ListingStatus,
+    buyer: { buyerId: string } | { buyerEmail: string } | null = null
+  ): Promise<Product | null> {
     try {
-      const response = await fetch(`${API_BASE_URL}/products/${id}/sold`, {
+      return await apiRequest(`/products/${encodeURIComponent(id)}/status`, {
         method: 'PATCH',
+        body: { status, ...buyer },
+        auth: true,
+        schema: productSchema,
       });
-      return response.ok;
     } catch (error) {
-      console.error('Error marking product as sold:', error);
-      return false;
+      console.error('Error changing product status:', error);
+      return null;
+    }
+  },
+
+  /**
+   * Restarts the listing's expiry period, making an expired listing visible again
+   * @returns The updated listing, or null on failure
+   */
+  async renew(id: string): Promise<Product | null> {
+    try {
+      return await apiRequest(`/products/${encodeURIComponent(id)}/renew`, {
+        method: 'POST',
+        auth: true,
+        schema: productSchema,
+      });
+    } catch (error) {
+      console.error('Error renewing product:', error);
+      return null;
+    }
+  },
+
+  /**
+   * Moves the listing back to the top of the newest-first feed. The backend
+   * rejects bumps within BUMP_COOLDOWN_HOURS of the previous one (429).
+   * @returns The updated listing, or null on failure
+   */
+  async bump(id: string): Promise<Product | null> {
+    try {
+      return await apiRequest(`/products/${encodeURIComponent(id)}/bump`, {
+        method: 'POST',
+        auth: true,
+        schema: productSchema,
+      });
+    } catch (error) {
+      console.error('Error bumping product:', error);
+      return null;
     }
   },
 
   async delete(id: string): Promise<boolean> {
     try {
-      const response = await fetch(`${API_BASE_URL}/products/${id}`, {
+      await apiRequest(`/products/${encodeURIComponent(id)}`, { method: 'DELETE', auth: true });
+      return true;
+    } catch (error) {
+      console.error('Error deleting product:', error);
+      return false;
+    }
+  }
+};
+
+export const favoritesService = {
+  async fetchAll(userId: string): Promise<Favorite[]> {
+    try {
+      return await apiRequest(`/users/${encodeURIComponent(userId)}/favorites`, {
+        auth: true,
+        schema: arrayOf(favoriteSchema),
+      });
+    } catch (error) {
+      console.error('Error fetching favorites:', error);
+      throw error;
+    }
+  },
+
+  async add(userId: string, productId: string): Promise<boolean> {
+    try {
+      await apiRequest(`/users/${encodeURIComponent(userId)}/favorites`, {
+        method: 'POST',
+        body: { productId },
+        auth: true,
+      });
+      return true;
+    } catch (error) {
+      console.error('Error saving favorite:', error);
+      return false;
+    }
+  },
+
+  async remove(userId: string, productId: string): Promise<boolean> {
+    try {
+      await apiRequest(
+        `/users/${encodeURIComponent(userId)}/favorites/${encodeURIComponent(productId)}`,
+        { method: 'DELETE', auth: true }
+      );
+      return true;
+    } catch (error) {
+      console.error('Error removing favorite:', error);
+      return false;
+    }
+  }
+};
+
+export const reviewService = {
+  async fetchForProduct(productId: string): Promise<Review[]> {
+    try {
+      return await apiRequest(`/products/${encodeURIComponent(productId)}/reviews`, {
+        schema: arrayOf(reviewSchema),
+      });
+    } catch (error) {
+      console.error('Error fetching reviews:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Reviews a user has received, newest first
+   */
+  async fetchForUser(userId: string): Promise<Review[]> {
+    try {
+      return await apiRequest(`/users/${encodeURIComponent(userId)}/reviews`, {
+        schema: arrayOf(reviewSchema),
+      });
+    } catch (error) {
+      console.error('Error fetching reviews:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Reviews the other party of a completed sale. The backend works out who
+   * that is from the session and the listing's recorded buyer.
+   */
+  async create(productId: string, rating: number, comment: string): Promise<Review | null> {
+    try {
+      return await apiRequest(`/products/${encodeURIComponent(productId)}/reviews`, {
+        method: 'POST',
+        body: { rating, comment },
+        auth: true,
+        schema: reviewSchema,
+      });
+    } catch (error) {
+      console.error('Error posting review:', error);
+      return null;
+    }
+  }
+};
+
+export const offerService = {
+  /**
+   * Offers on a listing that the signed-in user is part of: every buyer's for
+   * the seller, only their own for a buyer. Oldest first.
+   */
+  async fetchForProduct(productId: string): Promise<Offer[]> {
+    try {
+      return await apiRequest(`/products/${encodeURIComponent(productId)}/offers`, {
+        auth: true,
+        schema: arrayOf(offerSchema),
+      });
+    } catch (error) {
+      console.error('Error fetching offers:', error);
+      throw error;
+    }
+  },
+
+  // Offers on all of the signed-in seller's listings, newest first
+  async fetchReceived(): Promise<Offer[]> {
+    try {
+      return await apiRequest('/offers/received', { auth: true, schema: arrayOf(offerSchema) });
+    } catch (error) {
+      console.error('Error fetching received offers:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Makes an offer as a buyer. Rejected by the backend for firm-price or
+   * unavailable listings, or while the buyer already has one pending.
+   */
+  async create(productId: string, amount: number): Promise<Offer | null> {
+    try {
+      return await apiRequest(`/products/${encodeURIComponent(productId)}/offers`, {
+        method: 'POST',
+        body: { amount },
+        auth: true,
+        schema: offerSchema,
+      });
+    } catch (error) {
+      console.error('Error making offer:', error);
+      return null;
+    }
+  },
+
+  /**
+   * Accepts the other party's pending offer; the listing becomes reserved
+   * for the buyer at the offered amount
+   * @returns The updated listing, or null on failure
+   */
+  async accept(offerId: string): Promise<Product | null> {
+    try {
+      return await apiRequest(`/offers/${encodeURIComponent(offerId)}/accept`, {
+        method: 'POST',
+        auth: true,
+        schema: productSchema,
+      });
+    } catch (error) {
+      console.error('Error accepting offer:', error);
+      return null;
+    }
+  },
+
+  async decline(offerId: string): Promise<boolean> {
+    try {
+      await apiRequest(`/offers/${encodeURIComponent(offerId)}/decline`, {
+        method: 'POST',
+        auth: true,
+      });
+      return true;
+    } catch (error) {
+      console.error('Error declining offer:', error);
+      return false;
+    }
+  },
+
+  // Answers the other party's pending offer with a new amount
+  async counter(offerId: string, amount: number): Promise<Offer | null> {
+    try {
+      return await apiRequest(`/offers/${encodeURIComponent(offerId)}/counter`, {
+        method: 'POST',
+        body: { amount },
+        auth: true,
+        schema: offerSchema,
+      });
+    } catch (error) {
+      console.error('Error countering offer:', error);
+      return null;
+    }
+  }
+};
+
+export const reportService = {
+  /**
+   * Reports a listing. Each user counts once per listing; the backend hides
+   * the listing when enough distinct users have reported it.
+   * @returns false when the report couldn't be sent
+   */
+  async create(productId: string, reason: ReportReason, details: string): Promise<boolean> {
+    try {
+      await apiRequest(`/products/${encodeURIComponent(productId)}/reports`, {
+        method: 'POST',
+        body: { reason, details },
+        auth: true,
+      });
+      return true;
+    } catch (error) {
+      // Reporting the same listing twice is not an error for the user
+      if (error instanceof ApiError && error.status === 409) return true;
+      console.error('Error reporting listing:', error);
+      return false;
+    }
+  }
+};
+
+// Moderator-only endpoints; the backend checks the role on every request
+export const moderationService = {
+  /**
+   * Reported listings awaiting review, most reported first
+   */
+  async fetchQueue(): Promise<ModerationItem[]> {
+    try {
+      return await apiRequest('/moderation/queue', {
+        auth: true,
+        schema: arrayOf(moderationItemSchema),
+      });
+    } catch (error) {
+      console.error('Error fetching moderation queue:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Clears the reports against a listing and makes it visible again
+   */
+  async restoreListing(productId: string): Promise<boolean> {
+    try {
+      await apiRequest(`/moderation/products/${encodeURIComponent(productId)}/restore`, {
+        method: 'POST',
+        auth: true,
+      });
+      return true;
+    } catch (error) {
+      console.error('Error restoring listing:', error);
+      return false;
+    }
+  },
+
+  async removeListing(productId: string, note: string): Promise<boolean> {
+    try {
+      await apiRequest(`/moderation/products/${encodeURIComponent(productId)}`, {
         method: 'DELETE',
+        body: { note },
+        auth: true,
       });
-      return response.ok;
+      return true;
     } catch (error) {
-      console.error('Error deleting product:', error);
+      console.error('Error removing listing:', error);
+      return false;
+    }
+  },
+
+  async warnUser(userId: string, message: string): Promise<boolean> {
+    try {
+      await apiRequest(`/moderation/users/${encodeURIComponent(userId)}/warn`, {
+        method: 'POST',
+        body: { message },
+        auth: true,
+      });
+      return true;
+    } catch (error) {
+      console.error('Error warning user:', error);
+      return false;
+    }
+  },
+
+  /**
+   * Blocks the user from signing in and listing for the given number of days
+   */
+  async suspendUser(userId: string, days: number, reason: string): Promise<boolean> {
+    try {
+      await apiRequest(`/moderation/users/${encodeURIComponent(userId)}/suspend`, {
+        method: 'POST',
+        body: { days, reason },
+        auth: true,
+      });
+      return true;
+    } catch (error) {
+      console.error('Error suspending user:', error);
+      return false;
+    }
+  }
+};
+
+// Admin-only endpoints; the backend checks the role on every request
+export const adminService = {
+  async searchUsers(search: string): Promise<User[]> {
+    try {
+      const params = new URLSearchParams({ search: search.trim() });
+      return await apiRequest('/admin/users', {
+        query: params,
+        auth: true,
+        schema: arrayOf(userSchema),
+      });
+    } catch (error) {
+      console.error('Error searching users:', error);
+      throw error;
+    }
+  },
+
+  async setRole(userId: string, role: UserRole): Promise<boolean> {
+    try {
+      await apiRequest(`/admin/users/${encodeURIComponent(userId)}/role`, {
+        method: 'PATCH',
+        body: { role },
+        auth: true,
+      });
+      return true;
+    } catch (error) {
+      console.error('Error changing role:', error);
       return false;
     }
+  },
+
+  async liftSuspension(userId: string): Promise<boolean> {
+    try {
+      await apiRequest(`/admin/users/${encodeURIComponent(userId)}/suspension`, {
+        method: 'DELETE',
+        auth: true,
+      });
+      return true;
+    } catch (error) {
+      console.error('Error lifting suspension:', error);
+      return false;
+    }
+  },
+
+  async fetchStats(): Promise<MarketplaceStats> {
+    try {
+      return await apiRequest('/admin/stats', { auth: true, schema: marketplaceStatsSchema });
+    } catch (error) {
+      console.error('Error fetching marketplace stats:', error);
+      throw error;
+    }
+  }
+};
+
+export const categoryService = {
+  /**
+   * Every category with whether it accepts new listings. Categories the
+   * backend doesn't mention are treated as enabled.
+   */
+  async fetchSettings(): Promise<CategorySetting[]> {
+    try {
+      const settings = await apiRequest('/categories', { schema: arrayOf(categorySettingSchema) });
+      return Object.values(Category).map(
+        (category) =>
+          settings.find((setting) => setting.category === category) ?? { category, enabled: true }
+      );
+    } catch (error) {
+      console.error('Error fetching categories:', error);
+      throw error;
+    }
+  },
+
+  async update(category: Category, enabled: boolean): Promise<boolean> {
+    try {
+      await apiRequest(`/categories/${encodeURIComponent(category)}`, {
+        method: 'PATCH',
+        body: { enabled },
+        auth: true,
+      });
+      return true;
+    } catch (error) {
+      console.error('Error updating category:', error);
+      return false;
+    }
+  }
+};
+
+export const analyticsService = {
+  /**
+   * Records a buyer interaction with a listing. Fire-and-forget: failures are
+   * only logged, and sellers looking at their own listings aren't counted.
+   */
+  async recordEvent(product: Product, type: ListingEventType): Promise<void> {
+    if (getStoredSession()?.user.id === product.userId) return;
+    try {
+      await apiRequest(`/products/${encodeURIComponent(product.id)}/events`, {
+        method: 'POST',
+        body: { type },
+      });
+    } catch (error) {
+      console.warn(`Error recording ${type} event:`, error);
+    }
+  },
+
+  /**
+   * Per-listing counts and daily totals for the signed-in seller
+   * @param days - Length of the daily series, ending today
+   */
+  async fetchForSeller(days = 30): Promise<SellerAnalytics> {
+    try {
+      return await apiRequest('/analytics/me', {
+        query: new URLSearchParams({ days: String(days) }),
+        auth: true,
+        schema: sellerAnalyticsSchema,
+      });
+    } catch (error) {
+      console.error('Error fetching seller analytics:', error);
+      throw error;
+    }
+  }
+};
+
+export const userService = {
+  /**
+   * Seller details safe to show to anyone, for the public profile page
+   */
+  async fetchPublicProfile(userId: string): Promise<PublicProfile | null> {
+    try {
+      return await apiRequest(`/users/${encodeURIComponent(userId)}`, {
+        schema: publicProfileSchema,
+      });
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 404) return null;
+      console.error('Error fetching seller profile:', error);
+      throw error;
+    }
   }
 };
 
 export const authService = {
   async getProfileByEmail(email: string): Promise<User | null> {
     try {
-      const response = await fetch(`${API_BASE_URL}/profiles/${encodeURIComponent(email)}`);
-      if (!response.ok) {
-        if (response.status === 404) return null;
-        throw new Error('Failed to fetch profile');
-      }
-      const data = await response.json();
-      return data;
+      return await apiRequest(`/profiles/${encodeURIComponent(email)}`, { schema: userSchema });
     } catch (error) {
+      if (error instanceof ApiError && error.status === 404) return null;
       console.error('Error fetching profile:', error);
       return null;
     }
   },
   async upsertProfile(user: User & { password?: string }): Promise<boolean> {
     try {
-      const payload: any = {
+      const payload: Record<string, string> = {
         id: user.id,
         fullName: user.fullName,
         email: user.email,
@@ -143,28 +714,8 @@ export const authService = {
 
       if (user.password) payload.password = user.password;
 
-      console.log('Sending profile to backend:', payload);
-      
-      const response = await fetch(`${API_BASE_URL}/profiles`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(payload),
-      });
-
-      const responseData = await response.json();
-      
-      if (!response.ok) {
-        console.error('Backend error response:', {
-          status: response.status,
-          statusText: response.statusText,
-          data: responseData
-        });
-        return false;
-      }
-
-      console.log('Profile saved successfully:', responseData);
+      // Carries the token when editing an existing profile; none at registration
+      await apiRequest('/profiles', { method: 'POST', body: payload, auth: true });
       return true;
     } catch (error) {
       console.error('Error updating profile:', error);
@@ -172,20 +723,152 @@ export const authService = {
     }
   },
 
-  async login(email: string, password: string): Promise<User | null> {
+  isSuspended(user: User): boolean {
+    return user.suspendedUntil !== null && new Date(user.suspendedUntil) > new Date();
+  },
+
+  /**
+   * Whether the user may act with the given role. Higher roles include the
+   * lower ones, and suspended accounts have no role at all.
+   */
+  hasRole(user: User | null, role: UserRole): boolean {
+    if (!user || authService.isSuspended(user)) return false;
+    return ROLE_RANK[user.role] >= ROLE_RANK[role];
+  },
+
+  /**
+   * Emails the signed-in user a verification code and a magic link. Links
+   * point back at the app that asked, so they also work from a dev server.
+   */
+  async sendVerificationEmail(): Promise<boolean> {
     try {
-      const response = await fetch(`${API_BASE_URL}/login`, {
+      await apiRequest('/auth/verify-email', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ email, password }),
+        body: { linkBaseUrl: `${window.location.origin}/verify-email` },
+        auth: true,
       });
+      return true;
+    } catch (error) {
+      console.error('Error sending verification email:', error);
+      return false;
+    }
+  },
 
-      if (!response.ok) {
-        return null;
-      }
+  /**
+   * Confirms the email address with the typed code (signed-in user) or the
+   * magic-link token (which identifies the user on its own)
+   * @returns The updated user, or null when the code or token is invalid
+   */
+  async confirmEmail(proof: { code: string } | { token: string }): Promise<User | null> {
+    try {
+      return await apiRequest('/auth/verify-email/confirm', {
+        method: 'POST',
+        body: proof,
+        auth: 'code' in proof,
+        schema: userSchema,
+      });
+    } catch (error) {
+      console.error('Error confirming email:', error);
+      return null;
+    }
+  },
+
+  /**
+   * Emails a reset link if an account exists. Succeeds either way so the
+   * form can't be used to find out who is registered.
+   */
+  async requestPasswordReset(email: string): Promise<boolean> {
+    try {
+      await apiRequest('/auth/password-reset', {
+        method: 'POST',
+        body: { email, linkBaseUrl: `${window.location.origin}/reset-password` },
+      });
+      return true;
+    } catch (error) {
+      console.error('Error requesting password reset:', error);
+      return false;
+    }
+  },
+
+  async resetPassword(token: string, password: string): Promise<boolean> {
+    try {
+      await apiRequest('/auth/password-reset/confirm', {
+        method: 'POST',
+        body: { token, password },
+      });
+      return true;
+    } catch (error) {
+      console.error('Error resetting password:', error);
+      return false;
+    }
+  },
+
+  /**
+   * Changes the signed-in user's password. The backend rejects the request
+   * when currentPassword is wrong.
+   */
+  async changePassword(currentPassword: string, newPassword: string): Promise<boolean> {
+    try {
+      await apiRequest('/auth/password', {
+        method: 'POST',
+        body: { currentPassword, newPassword },
+        auth: true,
+        // A wrong current password is the user's mistake, not a dead session
+        onUnauthorized: 'throw',
+      });
+      return true;
+    } catch (error) {
+      console.error('Error changing password:', error);
+      return false;
+    }
+  },
 
-      const data = await response.json();
-      return data;
+  /**
+   * Permanently deletes the signed-in user's account
+   * @param listings - Delete the user's listings, or keep them with the
+   *   seller name and contact details removed
+   */
+  async deleteAccount(
+    password: string,
+    listings: 'delete' | 'anonymize'
+  ): Promise<boolean> {
+    try {
+      await apiRequest('/profiles/me', {
+        method: 'DELETE',
+        body: { password, listings },
+        auth: true,
+        onUnauthorized: 'throw',
+      });
+      return true;
+    } catch (error) {
+      console.error('Error deleting account:', error);
+      return false;
+    }
+  },
+
+  /**
+   * Exchanges the session token for a Supabase JWT whose subject is the
+   * user, so messaging row level security can tell who is asking
+   */
+  async fetchMessagingToken(): Promise<MessagingToken | null> {
+    try {
+      return await apiRequest('/auth/messaging-token', {
+        auth: true,
+        schema: messagingTokenSchema,
+      });
+    } catch (error) {
+      console.error('Error fetching messaging token:', error);
+      return null;
+    }
+  },
+
+  async login(email: string, password: string): Promise<AuthSession | null> {
+    try {
+      return await apiRequest('/login', {
+        method: 'POST',
+        body: { email, password },
+        schema: authSessionSchema,
+      });
     } catch (error) {
       console.error('Login error:', error);
       return null;
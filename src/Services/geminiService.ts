@@ -1,4 +1,33 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import {
+  GenerationConfig,
+  GoogleGenerativeAI,
+  Part,
+  SchemaType,
+} from "@google/generative-ai";
+import {
+  Category,
+  Condition,
+  ListingSuggestion,
+  PhotoIssueKind,
+} from "../types";
+import { listingSuggestionSchema, parse } from "./schemas";
+
+// Must accept images as well as text
+const GEMINI_MODEL = import.meta.env.VITE_GEMINI_MODEL || "gemini-2.5-flash";
+
+const getModel = (generationConfig?: GenerationConfig) => {
+  const apiKey = import.meta.env.VITE_GOOGLE_API_KEY;
+  if (!apiKey) {
+    throw new Error("VITE_GOOGLE_API_KEY is missing");
+  }
+
+  const genAI = new GoogleGenerativeAI(apiKey);
+
+  return genAI.getGenerativeModel({
+    model: GEMINI_MODEL,
+    generationConfig,
+  });
+};
 
 export const generateProductDescription = async (
   title: string,
@@ -6,16 +35,7 @@ export const generateProductDescription = async (
   condition: string
 ): Promise<string> => {
   try {
-    const apiKey = (import.meta as any).env.VITE_GOOGLE_API_KEY;
-    if (!apiKey) {
-      throw new Error("VITE_GOOGLE_API_KEY is missing");
-    }
-
-    const genAI = new GoogleGenerativeAI(apiKey);
-
-    const model = genAI.getGenerativeModel({
-      model: "gemini-1.5-flash",
-    });
+    const model = getModel();
 
     const prompt = `Write a compelling, concise 2-sentence sales description for a campus marketplace listing.
 Product: ${title}
@@ -32,3 +52,103 @@ Tone: Helpful, honest, and persuasive.`;
     return "Failed to generate AI description. Please write manually.";
   }
 };
+
+// Gemini accepts images inline as base64 without the data: URL prefix
+const toInlinePart = (image: Blob): Promise<Part> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const dataUrl = reader.result as string;
+      resolve({
+        inlineData: {
+          data: dataUrl.slice(dataUrl.indexOf(",") + 1),
+          mimeType: image.type || "image/jpeg",
+        },
+      });
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(image);
+  });
+
+const suggestionConfig: GenerationConfig = {
+  responseMimeType: "application/json",
+  responseSchema: {
+    type: SchemaType.OBJECT,
+    properties: {
+      title: { type: SchemaType.STRING, nullable: true },
+      category: {
+        type: SchemaType.STRING,
+        format: "enum",
+        enum: Object.values(Category),
+        nullable: true,
+      },
+      condition: {
+        type: SchemaType.STRING,
+        format: "enum",
+        enum: Object.values(Condition),
+        nullable: true,
+      },
+      description: { type: SchemaType.STRING, nullable: true },
+      photoIssues: {
+        type: SchemaType.ARRAY,
+        items: {
+          type: SchemaType.OBJECT,
+          properties: {
+            photo: { type: SchemaType.INTEGER },
+            kind: {
+              type: SchemaType.STRING,
+              format: "enum",
+              enum: Object.values(PhotoIssueKind),
+            },
+            message: { type: SchemaType.STRING },
+          },
+          required: ["photo", "kind", "message"],
+        },
+      },
+    },
+    required: ["title", "category", "condition", "description", "photoIssues"],
+  },
+};
+
+/**
+ * Looks at the seller's photos and suggests listing details, using what they
+ * have typed so far as context
+ * @param images - Photos in the order they appear on the form
+ * @returns The suggestion, or null if the assistant couldn't be reached
+ */
+export const suggestListingFromImages = async (
+  images: Blob[],
+  draft: { title: string; category: Category; condition: Condition }
+): Promise<ListingSuggestion | null> => {
+  try {
+    const model = getModel(suggestionConfig);
+
+    const prompt = `You help DeKUT university students list second-hand items on a campus marketplace.
+Look at the ${images.length} attached photo(s), numbered from 1 in the order given, and suggest:
+- title: a short, specific listing title (brand and model if visible)
+- category: one of ${Object.values(Category).join(", ")}
+- condition: one of ${Object.values(Condition).join(", ")}, judged only from visible wear
+- description: an honest 2-3 sentence description for fellow students, mentioning visible defects
+- photoIssues: photos that are blurry, too dark, or look like stock/web images instead of the actual item, with a short tip to fix each
+Use null for anything the photos don't show clearly. Return an empty photoIssues list if the photos are fine.
+The seller has entered so far: title "${draft.title || "(none)"}", category ${draft.category}, condition ${draft.condition}.`;
+
+    const parts = await Promise.all(images.map(toInlinePart));
+    const result = await model.generateContent([prompt, ...parts]);
+    const suggestion = parse(
+      listingSuggestionSchema,
+      JSON.parse(result.response.text()),
+      "Gemini listing suggestion"
+    );
+
+    return {
+      ...suggestion,
+      photoIssues: suggestion.photoIssues.filter(
+        (issue) => issue.photo >= 1 && issue.photo <= images.length
+      ),
+    };
+  } catch (error) {
+    console.error("Gemini API error:", error);
+    return null;
+  }
+};
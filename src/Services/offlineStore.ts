@@ -0,0 +1,217 @@
+/**
+ * IndexedDB storage for offline use
+ * Keeps the last fetched feed pages and listings so browsing works without a
+ * connection, and an outbox of listings created while offline.
+ */
+
+import { ListingInput, Product } from '../types';
+import { arrayOf, parse, productSchema } from './schemas';
+
+const DB_NAME = 'dkut_marketplace';
+const DB_VERSION = 1;
+
+const FEEDS = 'feeds';
+const PRODUCTS = 'products';
+const OUTBOX = 'outbox';
+
+// Only the most recently viewed feed queries are kept
+const MAX_CACHED_FEEDS = 10;
+
+export interface CachedFeed {
+  queryKey: string;
+  products: Product[];
+  nextCursor: string | null;
+  savedAt: string;
+}
+
+// Listing waiting to be submitted; File images are stored as-is
+export interface OutboxEntry {
+  id: string;
+  userId: string;
+  payload: ListingInput & { images: File[] };
+  createdAt: string;
+  attempts: number;
+  lastError: string | null;
+}
+
+/**
+ * Entries queued by an older version of the app lack fields the listing form
+ * has gained since; they get the form's defaults
+ */
+const withPayloadDefaults = (entry: OutboxEntry): OutboxEntry => ({
+  ...entry,
+  payload: {
+    ...entry.payload,
+    isFirmPrice: entry.payload.isFirmPrice ?? false,
+    attributes: entry.payload.attributes ?? {},
+    unitCodes: entry.payload.unitCodes ?? [],
+  },
+});
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(FEEDS)) {
+          db.createObjectStore(FEEDS, { keyPath: 'queryKey' });
+        }
+        if (!db.objectStoreNames.contains(PRODUCTS)) {
+          db.createObjectStore(PRODUCTS, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(OUTBOX)) {
+          db.createObjectStore(OUTBOX, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return promisify(run(db.transaction(storeName, mode).objectStore(storeName)));
+};
+
+/**
+ * Runs an IndexedDB operation, logging instead of throwing: offline storage is
+ * best-effort and must never break the online path
+ */
+const safely = async <T>(label: string, run: () => Promise<T>, fallback: T): Promise<T> => {
+  try {
+    return await run();
+  } catch (error) {
+    console.warn(`Offline store: ${label} failed`, error);
+    return fallback;
+  }
+};
+
+export const offlineStore = {
+  async saveFeed(feed: CachedFeed): Promise<void> {
+    await safely('saveFeed', async () => {
+      await withStore(FEEDS, 'readwrite', (store) => store.put(feed));
+      await Promise.all(
+        feed.products.map((product) =>
+          withStore(PRODUCTS, 'readwrite', (store) => store.put(product))
+        )
+      );
+
+      const feeds = await withStore<CachedFeed[]>(FEEDS, 'readonly', (store) => store.getAll());
+      const stale = feeds
+        .sort((a, b) => b.savedAt.localeCompare(a.savedAt))
+        .slice(MAX_CACHED_FEEDS);
+      await Promise.all(
+        stale.map((old) => withStore(FEEDS, 'readwrite', (store) => store.delete(old.queryKey)))
+      );
+    }, undefined);
+  },
+
+  // Cached listings may predate fields added since, so they are validated
+  // again on the way out, like fresh API responses
+  async getFeed(queryKey: string): Promise<CachedFeed | null> {
+    return safely(
+      'getFeed',
+      async () => {
+        const feed = await withStore<CachedFeed | undefined>(FEEDS, 'readonly', (store) =>
+          store.get(queryKey)
+        );
+        if (!feed) return null;
+        return { ...feed, products: parse(arrayOf(productSchema), feed.products, 'cached feed') };
+      },
+      null
+    );
+  },
+
+  async saveProduct(product: Product): Promise<void> {
+    await safely(
+      'saveProduct',
+      () => withStore(PRODUCTS, 'readwrite', (store) => store.put(product)),
+      undefined
+    );
+  },
+
+  async getProduct(id: string): Promise<Product | null> {
+    return safely(
+      'getProduct',
+      async () => {
+        const product = await withStore<unknown>(PRODUCTS, 'readonly', (store) => store.get(id));
+        return product ? parse(productSchema, product, 'cached product') : null;
+      },
+      null
+    );
+  },
+
+  async removeProduct(id: string): Promise<void> {
+    await safely(
+      'removeProduct',
+      () => withStore(PRODUCTS, 'readwrite', (store) => store.delete(id)),
+      undefined
+    );
+  },
+
+  async addToOutbox(entry: OutboxEntry): Promise<boolean> {
+    return safely(
+      'addToOutbox',
+      async () => {
+        await withStore(OUTBOX, 'readwrite', (store) => store.put(entry));
+        return true;
+      },
+      false
+    );
+  },
+
+  async getOutbox(userId: string): Promise<OutboxEntry[]> {
+    return safely(
+      'getOutbox',
+      async () => {
+        const entries = await withStore<OutboxEntry[]>(OUTBOX, 'readonly', (store) =>
+          store.getAll()
+        );
+        return entries
+          .filter((entry) => entry.userId === userId)
+          .map(withPayloadDefaults)
+          .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+      },
+      []
+    );
+  },
+
+  async updateOutboxEntry(entry: OutboxEntry): Promise<void> {
+    await safely(
+      'updateOutboxEntry',
+      () => withStore(OUTBOX, 'readwrite', (store) => store.put(entry)),
+      undefined
+    );
+  },
+
+  async clearOutbox(userId: string): Promise<void> {
+    const entries = await offlineStore.getOutbox(userId);
+    await Promise.all(entries.map((entry) => offlineStore.removeFromOutbox(entry.id)));
+  },
+
+  async removeFromOutbox(id: string): Promise<void> {
+    await safely(
+      'removeFromOutbox',
+      () => withStore(OUTBOX, 'readwrite', (store) => store.delete(id)),
+      undefined
+    );
+  },
+};
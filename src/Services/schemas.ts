@@ -0,0 +1,500 @@
+/**
+ * Runtime schemas for API responses
+ * Every payload from the backend is checked and normalized here, so the rest
+ * of the app can rely on the shapes declared in types.ts
+ */
+
+import {
+  Category,
+  CategorySetting,
+  Condition,
+  Favorite,
+  MarketplaceStats,
+  ListingAttributes,
+  ListingStats,
+  ListingStatus,
+  ListingSuggestion,
+  ModerationItem,
+  Offer,
+  OfferStatus,
+  PhotoIssue,
+  PhotoIssueKind,
+  Product,
+  ProductPage,
+  PublicProfile,
+  RatingSummary,
+  Report,
+  ReportReason,
+  Review,
+  SellerAnalytics,
+  StatusTimestamps,
+  User,
+  UserRole,
+} from '../types';
+import { toE164 } from '../utils/phone';
+import { normalizeUnitCode } from '../utils/unitCatalog';
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Thrown when a value can't be coerced into the expected shape
+ */
+export class SchemaError extends Error {
+  constructor(
+    public readonly path: string,
+    message: string
+  ) {
+    super(`${path}: ${message}`);
+    this.name = 'SchemaError';
+  }
+}
+
+// Fixes applied while parsing (e.g. a string price) are recorded as issues
+// instead of failing the whole record
+interface ParseContext {
+  path: string;
+  issues: ValidationIssue[];
+}
+
+export type Schema<T> = (value: unknown, ctx: ParseContext) => T;
+
+const at = (ctx: ParseContext, key: string | number): ParseContext => ({
+  ...ctx,
+  path: typeof key === 'number' ? `${ctx.path}[${key}]` : `${ctx.path}.${key}`,
+});
+
+const note = (ctx: ParseContext, message: string) => {
+  ctx.issues.push({ path: ctx.path, message });
+};
+
+// --- Primitives ---
+
+export const string = (): Schema<string> => (value, ctx) => {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number') {
+    note(ctx, 'number coerced to string');
+    return String(value);
+  }
+  throw new SchemaError(ctx.path, `expected string, got ${describe(value)}`);
+};
+
+/**
+ * String that falls back to a default when missing instead of failing
+ */
+export const optionalString = (fallback = ''): Schema<string> => (value, ctx) => {
+  if (value === null || value === undefined) return fallback;
+  return string()(value, ctx);
+};
+
+export const number = (): Schema<number> => (value, ctx) => {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) {
+    note(ctx, `numeric string "${value}" coerced to number`);
+    return Number(value);
+  }
+  throw new SchemaError(ctx.path, `expected number, got ${describe(value)}`);
+};
+
+export const boolean = (fallback = false): Schema<boolean> => (value, ctx) => {
+  if (typeof value === 'boolean') return value;
+  if (value === null || value === undefined) return fallback;
+  if (value === 'true' || value === 1) return true;
+  if (value === 'false' || value === 0) return false;
+  note(ctx, `unrecognized boolean ${describe(value)}, using ${fallback}`);
+  return fallback;
+};
+
+/**
+ * ISO timestamp. Unparseable dates are replaced with the current time so
+ * relative-time labels still render.
+ */
+export const isoDate = (): Schema<string> => (value, ctx) => {
+  const date = typeof value === 'string' || typeof value === 'number' ? new Date(value) : null;
+  if (date && !Number.isNaN(date.getTime())) return date.toISOString();
+  note(ctx, `invalid date ${describe(value)}, using current time`);
+  return new Date().toISOString();
+};
+
+/**
+ * Wraps a schema so null or a missing value parses as null
+ */
+export const nullable = <T>(schema: Schema<T>): Schema<T | null> => (value, ctx) =>
+  value === null || value === undefined ? null : schema(value, ctx);
+
+export const enumValue = <E extends string>(
+  values: Record<string, E>,
+  fallback?: E
+): Schema<E> => (value, ctx) => {
+  const allowed = Object.values(values);
+  if (allowed.includes(value as E)) return value as E;
+  if (fallback !== undefined) {
+    note(ctx, `unknown value ${describe(value)}, using "${fallback}"`);
+    return fallback;
+  }
+  throw new SchemaError(ctx.path, `expected one of ${allowed.join(', ')}, got ${describe(value)}`);
+};
+
+/**
+ * Array whose invalid entries are dropped (and reported) rather than
+ * failing the parent. A missing array parses as empty.
+ */
+export const arrayOf = <T>(item: Schema<T>): Schema<T[]> => (value, ctx) => {
+  if (value === null || value === undefined) return [];
+  if (!Array.isArray(value)) {
+    note(ctx, `expected array, got ${describe(value)}; using []`);
+    return [];
+  }
+  const result: T[] = [];
+  value.forEach((entry, index) => {
+    const entryCtx = at(ctx, index);
+    try {
+      result.push(item(entry, entryCtx));
+    } catch (error) {
+      note(entryCtx, `dropped: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+  return result;
+};
+
+/**
+ * Object schema with one field schema per key of T, so adding a field to a
+ * type in types.ts is a compile error until it is validated here too
+ */
+export const object = <T>(fields: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> => (
+  value,
+  ctx
+) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new SchemaError(ctx.path, `expected object, got ${describe(value)}`);
+  }
+  const raw = value as Record<string, unknown>;
+  const result = {} as T;
+  (Object.keys(fields) as (keyof T & string)[]).forEach((key) => {
+    result[key] = fields[key](raw[key], at(ctx, key));
+  });
+  return result;
+};
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return `"${value}"`;
+  return typeof value;
+};
+
+// --- Domain schemas ---
+
+/**
+ * Phone number normalized to E.164. Records saved before validation existed
+ * are fixed here on read; unrecognized numbers are kept as they are.
+ */
+const phoneNumber: Schema<string> = (value, ctx) => {
+  const raw = optionalString()(value, ctx);
+  if (raw === '') return raw;
+  const e164 = toE164(raw);
+  if (!e164) {
+    note(ctx, `unrecognized phone number "${raw}"`);
+    return raw;
+  }
+  if (e164 !== raw) note(ctx, `phone number "${raw}" normalized to ${e164}`);
+  return e164;
+};
+
+const imageUrl: Schema<string> = (value, ctx) => {
+  const url = string()(value, ctx).trim();
+  if (url === '') throw new SchemaError(ctx.path, 'empty image URL');
+  return url;
+};
+
+export const userSchema = object<User>({
+  id: string(),
+  email: string(),
+  fullName: optionalString(),
+  phone: phoneNumber,
+  role: enumValue(UserRole, UserRole.Student),
+  emailVerified: boolean(false),
+  suspendedUntil: nullable(isoDate()),
+  createdAt: isoDate(),
+});
+
+const rating: Schema<number> = (value, ctx) => {
+  const stars = number()(value, ctx);
+  if (stars < 1 || stars > 5) throw new SchemaError(ctx.path, `rating ${stars} out of range`);
+  return stars;
+};
+
+// Sellers without reviews may have no summary at all
+export const ratingSummarySchema: Schema<RatingSummary> = (value, ctx) =>
+  value === null || value === undefined
+    ? { average: 0, count: 0 }
+    : object<RatingSummary>({ average: number(), count: number() })(value, ctx);
+
+export const publicProfileSchema = object<PublicProfile>({
+  id: string(),
+  fullName: optionalString('Unknown seller'),
+  createdAt: isoDate(),
+  sellerRating: ratingSummarySchema,
+});
+
+export const reviewSchema = object<Review>({
+  id: string(),
+  productId: string(),
+  reviewerId: string(),
+  reviewerName: optionalString('Unknown user'),
+  revieweeId: string(),
+  reviewerRole: enumValue({ Buyer: 'buyer', Seller: 'seller' } as const),
+  rating,
+  comment: optionalString(),
+  createdAt: isoDate(),
+});
+
+/**
+ * Category attributes. Numbers are kept as strings; other values are dropped.
+ */
+const attributesSchema: Schema<ListingAttributes> = (value, ctx) => {
+  if (value === null || value === undefined) return {};
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    note(ctx, `expected attributes object, got ${describe(value)}; using {}`);
+    return {};
+  }
+  const attributes: ListingAttributes = {};
+  Object.entries(value as Record<string, unknown>).forEach(([key, raw]) => {
+    if (typeof raw === 'string' || typeof raw === 'number') attributes[key] = String(raw);
+    else note(at(ctx, key), `dropped attribute ${describe(raw)}`);
+  });
+  return attributes;
+};
+
+// Unit tags in "ABC 1234" form; malformed codes are dropped
+const unitCode: Schema<string> = (value, ctx) => {
+  const raw = string()(value, ctx);
+  const code = normalizeUnitCode(raw);
+  if (!code) throw new SchemaError(ctx.path, `malformed unit code "${raw}"`);
+  return code;
+};
+
+// Listings saved before statuses existed have no timestamps at all
+const statusTimestampsSchema: Schema<StatusTimestamps> = (value, ctx) =>
+  value === null || value === undefined
+    ? { available: null, reserved: null, sold: null, withdrawn: null }
+    : object<StatusTimestamps>({
+        available: nullable(isoDate()),
+        reserved: nullable(isoDate()),
+        sold: nullable(isoDate()),
+        withdrawn: nullable(isoDate()),
+      })(value, ctx);
+
+const productFields = object<Product>({
+  id: string(),
+  userId: string(),
+  sellerName: optionalString('Unknown seller'),
+  sellerPhone: phoneNumber,
+  allowWhatsapp: boolean(false),
+  title: optionalString('Untitled listing'),
+  description: optionalString(),
+  price: number(),
+  isFirmPrice: boolean(false),
+  category: enumValue(Category, Category.Other),
+  condition: enumValue(Condition, Condition.UsedGood),
+  attributes: attributesSchema,
+  unitCodes: arrayOf(unitCode),
+  images: arrayOf(imageUrl),
+  status: enumValue(ListingStatus, ListingStatus.Available),
+  statusChangedAt: statusTimestampsSchema,
+  agreedPrice: nullable(number()),
+  buyerId: nullable(string()),
+  sellerRating: ratingSummarySchema,
+  isHidden: boolean(false),
+  createdAt: isoDate(),
+  updatedAt: isoDate(),
+  bumpedAt: nullable(isoDate()),
+});
+
+/**
+ * Books listings once had a "courseUnit" attribute; it is moved into the
+ * unit tags here
+ */
+const migrateCourseUnit = (product: Product, ctx: ParseContext): Product => {
+  const { courseUnit, ...attributes } = product.attributes;
+  if (courseUnit === undefined) return product;
+  const code = normalizeUnitCode(courseUnit);
+  note(ctx, `legacy courseUnit "${courseUnit}" ${code ? 'moved to unitCodes' : 'dropped'}`);
+  return {
+    ...product,
+    attributes,
+    unitCodes:
+      code && !product.unitCodes.includes(code)
+        ? [...product.unitCodes, code]
+        : product.unitCodes,
+  };
+};
+
+/**
+ * Listings saved before statuses existed only have an isSold flag, which is
+ * mapped to the sold status here
+ */
+export const productSchema: Schema<Product> = (value, ctx) => {
+  const product = migrateCourseUnit(productFields(value, ctx), ctx);
+  const raw = value as Record<string, unknown>;
+  if (raw.status === undefined && raw.isSold === true) {
+    note(ctx, 'legacy isSold mapped to status "sold"');
+    return { ...product, status: ListingStatus.Sold };
+  }
+  return product;
+};
+
+export const reportSchema = object<Report>({
+  id: string(),
+  productId: string(),
+  reporterId: string(),
+  reason: enumValue(ReportReason, ReportReason.Other),
+  details: optionalString(),
+  createdAt: isoDate(),
+});
+
+export const moderationItemSchema = object<ModerationItem>({
+  product: productSchema,
+  reports: arrayOf(reportSchema),
+});
+
+export const categorySettingSchema = object<CategorySetting>({
+  category: enumValue(Category),
+  enabled: boolean(true),
+});
+
+export const marketplaceStatsSchema = object<MarketplaceStats>({
+  totalListings: number(),
+  soldListings: number(),
+  listingsByCategory: arrayOf(
+    object<MarketplaceStats['listingsByCategory'][number]>({
+      category: enumValue(Category, Category.Other),
+      count: number(),
+    })
+  ),
+  signupsPerWeek: arrayOf(
+    object<MarketplaceStats['signupsPerWeek'][number]>({
+      weekStart: isoDate(),
+      count: number(),
+    })
+  ),
+});
+
+const listingStatsSchema = object<ListingStats>({
+  productId: string(),
+  views: number(),
+  cardClicks: number(),
+  contactClicks: number(),
+  favorites: number(),
+  daysToSell: nullable(number()),
+});
+
+export const sellerAnalyticsSchema = object<SellerAnalytics>({
+  listings: arrayOf(listingStatsSchema),
+  totalRevenue: number(),
+  daily: arrayOf(
+    object<SellerAnalytics['daily'][number]>({
+      date: isoDate(),
+      views: number(),
+      contactClicks: number(),
+    })
+  ),
+});
+
+export const offerSchema = object<Offer>({
+  id: string(),
+  productId: string(),
+  productTitle: optionalString('Untitled listing'),
+  buyerId: string(),
+  buyerName: optionalString('Unknown buyer'),
+  fromRole: enumValue({ Buyer: 'buyer', Seller: 'seller' } as const),
+  amount: number(),
+  status: enumValue(OfferStatus),
+  createdAt: isoDate(),
+  respondedAt: nullable(isoDate()),
+});
+
+export const favoriteSchema = object<Favorite>({
+  product: productSchema,
+  savedAt: isoDate(),
+});
+
+// Statuses left out of the counts had no matching listings
+const count = (): Schema<number> => (value, ctx) =>
+  value === null || value === undefined ? 0 : number()(value, ctx);
+
+const statusCountsSchema = object<Record<ListingStatus, number>>({
+  available: count(),
+  reserved: count(),
+  sold: count(),
+  withdrawn: count(),
+});
+
+/**
+ * Product feed page. Older backends return a bare array with no paging
+ * metadata, which is treated as a single, final page.
+ */
+export const productPageSchema: Schema<ProductPage> = (value, ctx) => {
+  if (Array.isArray(value)) {
+    return { items: arrayOf(productSchema)(value, ctx), nextCursor: null, statusCounts: null };
+  }
+  return object<ProductPage>({
+    items: arrayOf(productSchema),
+    nextCursor: nullable(string()),
+    statusCounts: nullable(statusCountsSchema),
+  })(value, ctx);
+};
+
+/**
+ * Like nullable, but an unusable value also parses as null. Model output is
+ * advisory, so one bad field shouldn't discard the rest.
+ */
+const lenient = <T>(schema: Schema<T>): Schema<T | null> => (value, ctx) => {
+  try {
+    return nullable(schema)(value, ctx);
+  } catch (error) {
+    note(ctx, `dropped: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+};
+
+const suggestedText: Schema<string> = (value, ctx) => {
+  const text = string()(value, ctx).trim();
+  if (!text) throw new SchemaError(ctx.path, 'empty text');
+  return text;
+};
+
+const photoIssueSchema = object<PhotoIssue>({
+  photo: number(),
+  kind: enumValue(PhotoIssueKind, PhotoIssueKind.Other),
+  message: string(),
+});
+
+export const listingSuggestionSchema = object<ListingSuggestion>({
+  title: lenient(suggestedText),
+  category: lenient(enumValue(Category)),
+  condition: lenient(enumValue(Condition)),
+  description: lenient(suggestedText),
+  photoIssues: arrayOf(photoIssueSchema),
+});
+
+/**
+ * Parses a response body, logging any fields that had to be normalized in
+ * development builds
+ * @param schema - Schema to validate against
+ * @param value - Raw JSON value
+ * @param label - Resource name used in log output, e.g. "GET /products"
+ * @throws SchemaError when the value can't be used at all
+ */
+export const parse = <T>(schema: Schema<T>, value: unknown, label: string): T => {
+  const ctx: ParseContext = { path: '$', issues: [] };
+  const result = schema(value, ctx);
+  if (import.meta.env.DEV && ctx.issues.length > 0) {
+    console.groupCollapsed(`⚠️ ${label}: normalized ${ctx.issues.length} field(s)`);
+    console.table(ctx.issues);
+    console.groupEnd();
+  }
+  return result;
+};
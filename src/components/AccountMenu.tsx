@@ -0,0 +1,75 @@
+import React, { useEffect, useRef, useState } from "react";
+import { User } from "../types";
+import { paths } from "../router";
+
+interface AccountMenuProps {
+  user: User;
+  onNavigate: (path: string) => void;
+}
+
+export const AccountMenu: React.FC<AccountMenuProps> = ({
+  user,
+  onNavigate,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  const go = (path: string) => {
+    setIsOpen(false);
+    onNavigate(path);
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center space-x-2 hover:text-yellow-400 font-medium"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        <div className="w-8 h-8 rounded-full bg-yellow-400 flex items-center justify-center text-[#044414] font-bold">
+          {user.fullName.charAt(0)}
+        </div>
+        <span className="hidden lg:inline">{user.fullName.split(" ")[0]}</span>
+      </button>
+      {isOpen && (
+        <div
+          role="menu"
+          className="absolute right-0 mt-2 w-48 bg-white text-gray-800 rounded-xl shadow-xl border border-gray-100 overflow-hidden z-50"
+        >
+          <button
+            role="menuitem"
+            onClick={() => go(paths.dashboard())}
+            className="block w-full text-left px-4 py-3 hover:bg-gray-50"
+          >
+            My Dashboard
+          </button>
+          <button
+            role="menuitem"
+            onClick={() => go(paths.seller(user.id))}
+            className="block w-full text-left px-4 py-3 hover:bg-gray-50"
+          >
+            Public Profile
+          </button>
+          <button
+            role="menuitem"
+            onClick={() => go(paths.settings())}
+            className="block w-full text-left px-4 py-3 hover:bg-gray-50 border-t border-gray-100"
+          >
+            Settings
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,50 @@
+import React from "react";
+
+interface FavoriteButtonProps {
+  isSaved: boolean;
+  onToggle: () => void;
+  size?: "sm" | "lg";
+  className?: string;
+}
+
+export const FavoriteButton: React.FC<FavoriteButtonProps> = ({
+  isSaved,
+  onToggle,
+  size = "sm",
+  className = "",
+}) => {
+  return (
+    <button
+      type="button"
+      onClick={(e) => {
+        // Cards are clickable as a whole; saving shouldn't open the listing
+        e.stopPropagation();
+        onToggle();
+      }}
+      className={`rounded-full flex items-center justify-center transition-all shadow-sm ${
+        size === "lg" ? "w-12 h-12" : "w-8 h-8"
+      } ${
+        isSaved
+          ? "bg-red-500 text-white hover:bg-red-600"
+          : "bg-white/90 text-gray-600 hover:text-red-500"
+      } ${className}`}
+      aria-pressed={isSaved}
+      aria-label={isSaved ? "Remove from saved items" : "Save item"}
+    >
+      <svg
+        xmlns="http://www.w3.org/2000/svg"
+        className={size === "lg" ? "h-6 w-6" : "h-4 w-4"}
+        fill={isSaved ? "currentColor" : "none"}
+        viewBox="0 0 24 24"
+        stroke="currentColor"
+      >
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth={2}
+          d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z"
+        />
+      </svg>
+    </button>
+  );
+};
@@ -0,0 +1,37 @@
+import React, { useEffect, useRef } from "react";
+
+interface InfiniteScrollSentinelProps {
+  onVisible: () => void;
+  disabled?: boolean;
+}
+
+/**
+ * Invisible marker placed after a list; calls onVisible as it scrolls
+ * into view so the next page can be requested before the user hits the end.
+ */
+export const InfiniteScrollSentinel: React.FC<InfiniteScrollSentinelProps> = ({
+  onVisible,
+  disabled = false,
+}) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const onVisibleRef = useRef(onVisible);
+  onVisibleRef.current = onVisible;
+
+  useEffect(() => {
+    const node = ref.current;
+    if (!node || disabled) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          onVisibleRef.current();
+        }
+      },
+      { rootMargin: "400px" },
+    );
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, [disabled]);
+
+  return <div ref={ref} className="h-1 col-span-full" aria-hidden="true" />;
+};
@@ -1,14 +1,37 @@
 import React from "react";
-import { User } from "../types";
+import { AppNotification, User } from "../types";
+import { paths } from "../router";
+import { NotificationBell } from "./NotificationBell";
+import { AccountMenu } from "./AccountMenu";
 
 interface NavbarProps {
   user: User | null;
+  // Role-gated links; roles are checked by authService in App
+  canModerate: boolean;
+  isAdmin: boolean;
+  unreadMessages: number;
+  // Listings new since the user last opened their saved searches
+  newSearchMatches: number;
+  notifications: AppNotification[];
+  unreadNotifications: number;
+  onOpenNotifications: () => void;
+  onSelectNotification: (notification: AppNotification) => void;
+  onClearNotifications: () => void;
   onLogout: () => void;
-  onNavigate: (page: string) => void;
+  onNavigate: (path: string) => void;
 }
 
 export const Navbar: React.FC<NavbarProps> = ({
   user,
+  canModerate,
+  isAdmin,
+  unreadMessages,
+  newSearchMatches,
+  notifications,
+  unreadNotifications,
+  onOpenNotifications,
+  onSelectNotification,
+  onClearNotifications,
   onLogout,
   onNavigate,
 }) => {
@@ -17,7 +40,7 @@ export const Navbar: React.FC<NavbarProps> = ({
       <div className="container mx-auto px-4 h-16 flex items-center justify-between">
         <div
           className="flex items-center space-x-2 cursor-pointer"
-          onClick={() => onNavigate("home")}
+          onClick={() => onNavigate(paths.home())}
         >
           <div className="bg-yellow-400 p-1.5 rounded-lg">
             <svg
@@ -42,34 +65,95 @@ export const Navbar: React.FC<NavbarProps> = ({
 
         <div className="flex items-center space-x-4 md:space-x-6">
           <button
-            onClick={() => onNavigate("home")}
+            onClick={() => onNavigate(paths.home())}
             className="hidden md:block hover:text-yellow-400 font-medium transition-colors"
           >
             Browse
           </button>
+          {canModerate && (
+            <button
+              onClick={() => onNavigate(paths.moderation())}
+              className="hidden md:block hover:text-yellow-400 font-medium transition-colors"
+            >
+              Moderation
+            </button>
+          )}
+          {isAdmin && (
+            <button
+              onClick={() => onNavigate(paths.admin())}
+              className="hidden md:block hover:text-yellow-400 font-medium transition-colors"
+            >
+              Admin
+            </button>
+          )}
 
           {user ? (
             <>
               <button
-                onClick={() => onNavigate("create")}
+                onClick={() => onNavigate(paths.create())}
                 className="bg-yellow-400 text-[#044414] px-4 py-2 rounded-full font-bold hover:bg-yellow-300 transition-all text-sm md:text-base flex items-center gap-1"
               >
                 <span className="hidden sm:inline">Sell Item</span>
                 <span className="sm:hidden">+ Sell</span>
               </button>
-              <div className="relative group">
-                <button
-                  onClick={() => onNavigate("dashboard")}
-                  className="flex items-center space-x-2 hover:text-yellow-400 font-medium"
+              <button
+                onClick={() => onNavigate(paths.saved())}
+                className="relative hover:text-yellow-400 font-medium"
+                aria-label={`Saved items${newSearchMatches > 0 ? ` (${newSearchMatches} new matches)` : ""}`}
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  className="h-6 w-6"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                  stroke="currentColor"
                 >
-                  <div className="w-8 h-8 rounded-full bg-yellow-400 flex items-center justify-center text-[#044414] font-bold">
-                    {user.fullName.charAt(0)}
-                  </div>
-                  <span className="hidden lg:inline">
-                    {user.fullName.split(" ")[0]}
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z"
+                  />
+                </svg>
+                {newSearchMatches > 0 && (
+                  <span className="absolute -top-2 -right-2 bg-yellow-400 text-[#044414] text-[10px] font-bold min-w-[18px] h-[18px] px-1 rounded-full flex items-center justify-center">
+                    {newSearchMatches > 99 ? "99+" : newSearchMatches}
                   </span>
-                </button>
-              </div>
+                )}
+              </button>
+              <NotificationBell
+                notifications={notifications}
+                unreadCount={unreadNotifications}
+                onOpen={onOpenNotifications}
+                onSelect={onSelectNotification}
+                onClear={onClearNotifications}
+              />
+              <button
+                onClick={() => onNavigate(paths.inbox())}
+                className="relative hover:text-yellow-400 font-medium"
+                aria-label={`Messages${unreadMessages > 0 ? ` (${unreadMessages} unread)` : ""}`}
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  className="h-6 w-6"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                  stroke="currentColor"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z"
+                  />
+                </svg>
+                {unreadMessages > 0 && (
+                  <span className="absolute -top-2 -right-2 bg-yellow-400 text-[#044414] text-[10px] font-bold min-w-[18px] h-[18px] px-1 rounded-full flex items-center justify-center">
+                    {unreadMessages > 99 ? "99+" : unreadMessages}
+                  </span>
+                )}
+              </button>
+              <AccountMenu user={user} onNavigate={onNavigate} />
               <button
                 onClick={onLogout}
                 className="text-xs md:text-sm text-gray-300 hover:text-white underline decoration-gray-500"
@@ -80,13 +164,13 @@ export const Navbar: React.FC<NavbarProps> = ({
           ) : (
             <>
               <button
-                onClick={() => onNavigate("login")}
+                onClick={() => onNavigate(paths.login())}
                 className="hover:text-yellow-400 font-medium"
               >
                 Login
               </button>
               <button
-                onClick={() => onNavigate("register")}
+                onClick={() => onNavigate(paths.register())}
                 className="bg-white text-[#044414] px-4 py-2 rounded-md font-bold hover:bg-gray-100 transition-colors"
               >
                 Sign Up
@@ -0,0 +1,108 @@
+import React, { useEffect, useRef, useState } from "react";
+import { AppNotification } from "../types";
+
+interface NotificationBellProps {
+  notifications: AppNotification[];
+  unreadCount: number;
+  onOpen: () => void;
+  onSelect: (notification: AppNotification) => void;
+  onClear: () => void;
+}
+
+export const NotificationBell: React.FC<NotificationBellProps> = ({
+  notifications,
+  unreadCount,
+  onOpen,
+  onSelect,
+  onClear,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the dropdown
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  const toggle = () => {
+    if (!isOpen) onOpen();
+    setIsOpen(!isOpen);
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={toggle}
+        className="relative hover:text-yellow-400 font-medium"
+        aria-label={`Notifications${unreadCount > 0 ? ` (${unreadCount} unread)` : ""}`}
+      >
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          className="h-6 w-6"
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9"
+          />
+        </svg>
+        {unreadCount > 0 && (
+          <span className="absolute -top-2 -right-2 bg-yellow-400 text-[#044414] text-[10px] font-bold min-w-[18px] h-[18px] px-1 rounded-full flex items-center justify-center">
+            {unreadCount > 99 ? "99+" : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-3 w-80 max-w-[90vw] bg-white text-gray-800 rounded-xl shadow-xl border border-gray-100 overflow-hidden z-50">
+          <div className="flex justify-between items-center px-4 py-3 border-b border-gray-100">
+            <span className="font-bold">Notifications</span>
+            {notifications.length > 0 && (
+              <button
+                onClick={onClear}
+                className="text-xs text-gray-500 hover:text-gray-800 underline"
+              >
+                Clear all
+              </button>
+            )}
+          </div>
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.length === 0 ? (
+              <p className="px-4 py-8 text-center text-sm text-gray-500">
+                You're all caught up.
+              </p>
+            ) : (
+              notifications.map((n) => (
+                <button
+                  key={n.id}
+                  onClick={() => {
+                    setIsOpen(false);
+                    onSelect(n);
+                  }}
+                  className={`w-full text-left px-4 py-3 border-b border-gray-50 hover:bg-gray-50 ${
+                    n.read ? "" : "bg-green-50/60"
+                  }`}
+                >
+                  <p className="text-sm font-bold text-[#044414]">{n.title}</p>
+                  <p className="text-sm text-gray-600">{n.message}</p>
+                  <p className="text-[10px] text-gray-400 mt-1">
+                    {new Date(n.createdAt).toLocaleString()}
+                  </p>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
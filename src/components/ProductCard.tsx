@@ -1,15 +1,22 @@
 import React, { useState } from "react";
-import { Product } from "../types";
-import { validateAndLogImageState } from "../utils/imageValidation";
+import { ListingStatus, Product } from "../types";
+import { analyticsService } from "../Services/dbService";
+import { FavoriteButton } from "./FavoriteButton";
+import { RatingBadge } from "./StarRating";
 
 interface ProductCardProps {
   product: Product;
   onClick: () => void;
+  // The heart toggle is only shown when onToggleSave is provided
+  isSaved?: boolean;
+  onToggleSave?: () => void;
 }
 
 export const ProductCard: React.FC<ProductCardProps> = ({
   product,
   onClick,
+  isSaved = false,
+  onToggleSave,
 }) => {
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
 
@@ -28,16 +35,12 @@ export const ProductCard: React.FC<ProductCardProps> = ({
   // Handle image navigation
   const goToPreviousImage = (e: React.MouseEvent) => {
     e.stopPropagation();
-    setCurrentImageIndex((prev) =>
-      prev === 0 ? validImageUrls.length - 1 : prev - 1,
-    );
+    setCurrentImageIndex((prev) => (prev === 0 ? images.length - 1 : prev - 1));
   };
 
   const goToNextImage = (e: React.MouseEvent) => {
     e.stopPropagation();
-    setCurrentImageIndex((prev) =>
-      prev === validImageUrls.length - 1 ? 0 : prev + 1,
-    );
+    setCurrentImageIndex((prev) => (prev === images.length - 1 ? 0 : prev + 1));
   };
 
   // Handle image load failure
@@ -45,37 +48,29 @@ export const ProductCard: React.FC<ProductCardProps> = ({
     console.error(
       `✗ Image ${index + 1} failed to load for "${product.title}"`,
       {
-        url: validImageUrls[index],
+        url: images[index],
       },
     );
   };
 
-  // Validate images array
-  const hasValidImages =
-    Array.isArray(product.images) && product.images.length > 0;
-  const validImageUrls = hasValidImages
-    ? product.images.filter(
-        (url) => typeof url === "string" && url.trim() !== "",
-      )
-    : [];
-  const displayImage = validImageUrls[currentImageIndex];
-
-  // Debug logging
-  React.useEffect(() => {
-    validateAndLogImageState(product);
-  }, [product]);
+  // images is normalized to a list of non-empty URLs by the API client
+  const images = product.images;
+  const displayImage = images[currentImageIndex];
 
   return (
     <div
       className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden hover:shadow-md transition-all cursor-pointer group"
-      onClick={onClick}
+      onClick={() => {
+        analyticsService.recordEvent(product, "card-click");
+        onClick();
+      }}
     >
       <div className="relative aspect-square overflow-hidden bg-gray-100">
-        {validImageUrls.length > 0 && displayImage ? (
+        {images.length > 0 && displayImage ? (
           <>
             {/* Image counter badge */}
             <div className="absolute top-2 right-2 bg-black/70 text-white text-xs px-2 py-1 rounded-full font-bold z-20">
-              {currentImageIndex + 1}/{validImageUrls.length}
+              {currentImageIndex + 1}/{images.length}
             </div>
 
             {/* Main image */}
@@ -96,7 +91,7 @@ export const ProductCard: React.FC<ProductCardProps> = ({
             />
 
             {/* Navigation arrows (only show if multiple images) */}
-            {validImageUrls.length > 1 && (
+            {images.length > 1 && (
               <>
                 <button
                   onClick={goToPreviousImage}
@@ -139,7 +134,7 @@ export const ProductCard: React.FC<ProductCardProps> = ({
 
                 {/* Thumbnail indicators */}
                 <div className="absolute bottom-2 left-1/2 -translate-x-1/2 flex gap-1 z-10">
-                  {validImageUrls.map((_, index) => (
+                  {images.map((_, index) => (
                     <button
                       key={index}
                       onClick={(e) => {
@@ -182,15 +177,36 @@ export const ProductCard: React.FC<ProductCardProps> = ({
           </div>
         )}
 
-        {/* Sold overlay */}
-        {product.isSold && (
+        {/* Sold / withdrawn overlay */}
+        {(product.status === ListingStatus.Sold ||
+          product.status === ListingStatus.Withdrawn) && (
           <div className="absolute inset-0 bg-black/50 flex items-center justify-center z-20">
-            <span className="bg-red-500 text-white px-4 py-1 rounded-full font-bold uppercase tracking-wider text-sm shadow-lg">
-              Sold
+            <span
+              className={`${product.status === ListingStatus.Sold ? "bg-red-500" : "bg-gray-600"} text-white px-4 py-1 rounded-full font-bold uppercase tracking-wider text-sm shadow-lg`}
+            >
+              {product.status === ListingStatus.Sold ? "Sold" : "Withdrawn"}
+            </span>
+          </div>
+        )}
+
+        {/* Reserved ribbon */}
+        {product.status === ListingStatus.Reserved && (
+          <div className="absolute inset-0 overflow-hidden pointer-events-none z-20">
+            <span className="absolute bottom-5 -left-9 w-36 rotate-45 bg-yellow-400 text-[#044414] text-center text-xs font-bold uppercase tracking-wider py-1 shadow-md">
+              Reserved
             </span>
           </div>
         )}
 
+        {/* Save toggle */}
+        {onToggleSave && (
+          <FavoriteButton
+            isSaved={isSaved}
+            onToggle={onToggleSave}
+            className="absolute bottom-2 right-2 z-30"
+          />
+        )}
+
         {/* Category badge */}
         <div className="absolute top-2 left-2 flex gap-1 z-20">
           <span className="bg-[#044414] text-white text-[10px] px-2 py-1 rounded-md font-bold">
@@ -226,6 +242,7 @@ export const ProductCard: React.FC<ProductCardProps> = ({
             />
           </svg>
           <span>{timeAgo(product.createdAt)}</span>
+          <RatingBadge summary={product.sellerRating} className="ml-auto" />
         </div>
       </div>
     </div>
@@ -0,0 +1,89 @@
+import React from "react";
+import { RatingSummary } from "../types";
+
+const STAR_PATH =
+  "M11.049 2.927c.3-.921 1.603-.921 1.902 0l1.519 4.674a1 1 0 00.95.69h4.915c.969 0 1.371 1.24.588 1.81l-3.976 2.888a1 1 0 00-.363 1.118l1.518 4.674c.3.922-.755 1.688-1.538 1.118l-3.976-2.888a1 1 0 00-1.176 0l-3.976 2.888c-.783.57-1.838-.197-1.538-1.118l1.518-4.674a1 1 0 00-.363-1.118l-3.976-2.888c-.784-.57-.38-1.81.588-1.81h4.914a1 1 0 00.951-.69l1.519-4.674z";
+
+interface StarRatingProps {
+  value: number;
+  // Makes the stars clickable; omit for a read-only display
+  onChange?: (value: number) => void;
+  size?: "sm" | "lg";
+}
+
+export const StarRating: React.FC<StarRatingProps> = ({
+  value,
+  onChange,
+  size = "sm",
+}) => {
+  const iconClass = size === "lg" ? "h-8 w-8" : "h-4 w-4";
+
+  return (
+    <div
+      className="flex items-center"
+      role={onChange ? "radiogroup" : "img"}
+      aria-label={`${value} out of 5 stars`}
+    >
+      {[1, 2, 3, 4, 5].map((star) => {
+        const icon = (
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            className={`${iconClass} ${
+              star <= Math.round(value) ? "text-yellow-400" : "text-gray-300"
+            }`}
+            fill="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path d={STAR_PATH} />
+          </svg>
+        );
+        return onChange ? (
+          <button
+            key={star}
+            type="button"
+            role="radio"
+            aria-checked={star === value}
+            aria-label={`${star} star${star === 1 ? "" : "s"}`}
+            onClick={() => onChange(star)}
+          >
+            {icon}
+          </button>
+        ) : (
+          <span key={star}>{icon}</span>
+        );
+      })}
+    </div>
+  );
+};
+
+interface RatingBadgeProps {
+  summary: RatingSummary;
+  className?: string;
+}
+
+/**
+ * Compact "★ 4.6 (12)" label; renders nothing until there are reviews
+ */
+export const RatingBadge: React.FC<RatingBadgeProps> = ({
+  summary,
+  className = "",
+}) => {
+  if (summary.count === 0) return null;
+  return (
+    <span
+      className={`inline-flex items-center gap-1 text-xs text-gray-600 ${className}`}
+      title={`${summary.average.toFixed(1)} out of 5 from ${summary.count} review${summary.count === 1 ? "" : "s"}`}
+    >
+      <svg
+        xmlns="http://www.w3.org/2000/svg"
+        className="h-3 w-3 text-yellow-400"
+        fill="currentColor"
+        viewBox="0 0 24 24"
+      >
+        <path d={STAR_PATH} />
+      </svg>
+      <span className="font-bold">{summary.average.toFixed(1)}</span>
+      <span className="text-gray-400">({summary.count})</span>
+    </span>
+  );
+};
@@ -0,0 +1,99 @@
+import React from "react";
+
+export interface TrendSeries {
+  label: string;
+  color: string;
+  values: number[];
+}
+
+interface TrendChartProps {
+  // One label per point, shared by every series
+  labels: string[];
+  series: TrendSeries[];
+  height?: number;
+}
+
+const WIDTH = 600;
+const PADDING = 24;
+
+/**
+ * Minimal SVG line chart. Scales to its container's width; all series share
+ * one y axis starting at zero.
+ */
+export const TrendChart: React.FC<TrendChartProps> = ({
+  labels,
+  series,
+  height = 200,
+}) => {
+  const max = Math.max(1, ...series.flatMap((s) => s.values));
+  const stepX =
+    labels.length > 1 ? (WIDTH - PADDING * 2) / (labels.length - 1) : 0;
+  const x = (index: number) => PADDING + index * stepX;
+  const y = (value: number) =>
+    height - PADDING - (value / max) * (height - PADDING * 2);
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        className="w-full h-auto"
+        role="img"
+        aria-label={series.map((s) => s.label).join(" and ") + " over time"}
+      >
+        <line
+          x1={PADDING}
+          x2={WIDTH - PADDING}
+          y1={height - PADDING}
+          y2={height - PADDING}
+          stroke="#e5e7eb"
+        />
+        <text x={PADDING} y={PADDING - 8} fontSize="11" fill="#9ca3af">
+          {max}
+        </text>
+        {series.map((s) => (
+          <g key={s.label}>
+            <polyline
+              fill="none"
+              stroke={s.color}
+              strokeWidth={2.5}
+              strokeLinejoin="round"
+              points={s.values.map((v, i) => `${x(i)},${y(v)}`).join(" ")}
+            />
+            {s.values.map((v, i) => (
+              <circle key={i} cx={x(i)} cy={y(v)} r={3} fill={s.color}>
+                <title>{`${labels[i]}: ${v} ${s.label.toLowerCase()}`}</title>
+              </circle>
+            ))}
+          </g>
+        ))}
+        {labels.length > 0 && (
+          <>
+            <text x={PADDING} y={height - 6} fontSize="11" fill="#9ca3af">
+              {labels[0]}
+            </text>
+            <text
+              x={WIDTH - PADDING}
+              y={height - 6}
+              fontSize="11"
+              fill="#9ca3af"
+              textAnchor="end"
+            >
+              {labels[labels.length - 1]}
+            </text>
+          </>
+        )}
+      </svg>
+      <div className="flex gap-4 text-sm text-gray-600 mt-2">
+        {series.map((s) => (
+          <span key={s.label} className="flex items-center gap-2">
+            <span
+              className="w-3 h-3 rounded-full"
+              style={{ backgroundColor: s.color }}
+            />
+            {s.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+import React, { useState } from "react";
+import {
+  normalizeUnitCode,
+  searchUnits,
+  unitTitle,
+} from "../utils/unitCatalog";
+
+interface UnitCodeInputProps {
+  codes: string[];
+  onChange: (codes: string[]) => void;
+  max?: number;
+  disabled?: boolean;
+  placeholder?: string;
+}
+
+/**
+ * Tag input for course unit codes with autocomplete from the unit catalog.
+ * Codes not in the catalog are accepted if they are well formed.
+ */
+export const UnitCodeInput: React.FC<UnitCodeInputProps> = ({
+  codes,
+  onChange,
+  max,
+  disabled = false,
+  placeholder = "e.g. SMA 2101 or Calculus",
+}) => {
+  const [query, setQuery] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const isFull = max !== undefined && codes.length >= max;
+  const suggestions = searchUnits(query).filter(
+    (unit) => !codes.includes(unit.code),
+  );
+
+  const add = (code: string) => {
+    if (!codes.includes(code)) onChange([...codes, code]);
+    setQuery("");
+    setError(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== "Enter" && e.key !== ",") return;
+    e.preventDefault();
+    if (!query.trim()) return;
+    const code = normalizeUnitCode(query) ?? suggestions[0]?.code;
+    if (code) add(code);
+    else setError(`"${query.trim()}" doesn't look like a unit code.`);
+  };
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-2 w-full px-3 py-2 rounded-xl border border-gray-200 focus-within:ring-2 focus-within:ring-[#044414] bg-white">
+        {codes.map((code) => (
+          <span
+            key={code}
+            title={unitTitle(code) ?? undefined}
+            className="flex items-center gap-1 bg-green-50 border border-green-100 text-[#044414] text-sm font-bold px-2 py-1 rounded-lg"
+          >
+            {code}
+            <button
+              type="button"
+              onClick={() => onChange(codes.filter((c) => c !== code))}
+              disabled={disabled}
+              className="text-gray-400 hover:text-red-600"
+              aria-label={`Remove ${code}`}
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        {!isFull && (
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setError(null);
+            }}
+            onKeyDown={handleKeyDown}
+            placeholder={codes.length === 0 ? placeholder : "Add another"}
+            disabled={disabled}
+            className="flex-grow min-w-[8rem] py-1 focus:outline-none bg-transparent"
+            aria-label="Course unit code"
+          />
+        )}
+      </div>
+      {query && suggestions.length > 0 && (
+        <ul className="absolute left-0 right-0 mt-1 bg-white border border-gray-100 rounded-xl shadow-xl overflow-hidden z-40">
+          {suggestions.map((unit) => (
+            <li key={unit.code}>
+              <button
+                type="button"
+                onClick={() => add(unit.code)}
+                className="w-full text-left px-4 py-2 hover:bg-gray-50 text-sm"
+              >
+                <span className="font-bold text-[#044414]">{unit.code}</span>{" "}
+                <span className="text-gray-600">{unit.title}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+    </div>
+  );
+};
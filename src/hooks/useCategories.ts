@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Category, CategorySetting } from '../types';
+import { categoryService } from '../Services/dbService';
+
+// Used until the settings load, and if they can't be loaded at all
+const ALL_ENABLED: CategorySetting[] = Object.values(Category).map((category) => ({
+  category,
+  enabled: true,
+}));
+
+/**
+ * Category settings managed from the admin console
+ */
+export const useCategories = () => {
+  const [settings, setSettings] = useState<CategorySetting[]>(ALL_ENABLED);
+
+  const reload = useCallback(async () => {
+    try {
+      setSettings(await categoryService.fetchSettings());
+    } catch {
+      // Keep the previous settings; listing stays possible everywhere
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  /**
+   * Enables or disables a category, updating the UI before the request finishes
+   * @returns false when the request failed and the change was rolled back
+   */
+  const setEnabled = useCallback(
+    async (category: Category, enabled: boolean): Promise<boolean> => {
+      const apply = (value: boolean) =>
+        setSettings((prev) =>
+          prev.map((s) => (s.category === category ? { ...s, enabled: value } : s))
+        );
+      apply(enabled);
+      const ok = await categoryService.update(category, enabled);
+      if (!ok) apply(!enabled);
+      return ok;
+    },
+    []
+  );
+
+  return {
+    settings,
+    enabledCategories: settings.filter((s) => s.enabled).map((s) => s.category),
+    setEnabled,
+    reload,
+  };
+};
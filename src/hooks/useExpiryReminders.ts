@@ -0,0 +1,44 @@
+import { useEffect, useRef } from 'react';
+import { AppNotification } from '../types';
+import { productService } from '../Services/dbService';
+import { detectExpiryReminders } from '../utils/listingExpiry';
+
+// Expiry is measured in days, so an hourly check is plenty
+const REFRESH_INTERVAL_MS = 60 * 60 * 1000;
+// Listings checked per run; sellers rarely have more active at once
+const LISTINGS_PER_CHECK = 100;
+
+/**
+ * Reminds the signed-in user, through onAlerts, about their listings that
+ * are about to expire or have just expired
+ * @param userId - Signed-in user, or null when signed out
+ * @param onAlerts - Receives reminders; ids repeat, so callers should dedupe
+ */
+export const useExpiryReminders = (
+  userId: string | null,
+  onAlerts: (alerts: AppNotification[]) => void
+) => {
+  const onAlertsRef = useRef(onAlerts);
+  onAlertsRef.current = onAlerts;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const check = async () => {
+      try {
+        const page = await productService.fetchPage(
+          { userId, includeExpired: true, sort: 'newest' },
+          null,
+          LISTINGS_PER_CHECK
+        );
+        onAlertsRef.current(detectExpiryReminders(page.items));
+      } catch {
+        // Retried on the next interval
+      }
+    };
+
+    check();
+    const timer = window.setInterval(check, REFRESH_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [userId]);
+};
@@ -0,0 +1,60 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { AppNotification } from '../types';
+import { getStoredNotifications, saveNotifications } from '../store';
+
+// Older alerts are dropped so storage doesn't grow without bound
+const MAX_NOTIFICATIONS = 50;
+
+/**
+ * In-app notifications for the signed-in user, persisted per device
+ * @param userId - Signed-in user, or null when signed out
+ */
+export const useNotifications = (userId: string | null) => {
+  const [notifications, setNotifications] = useState<AppNotification[]>(() =>
+    userId ? getStoredNotifications(userId) : []
+  );
+
+  useEffect(() => {
+    setNotifications(userId ? getStoredNotifications(userId) : []);
+  }, [userId]);
+
+  const update = useCallback(
+    (change: (prev: AppNotification[]) => AppNotification[]) => {
+      if (!userId) return;
+      setNotifications((prev) => {
+        const next = change(prev).slice(0, MAX_NOTIFICATIONS);
+        saveNotifications(userId, next);
+        return next;
+      });
+    },
+    [userId]
+  );
+
+  /**
+   * Adds alerts, newest first. Alerts with an id already present are ignored
+   * so re-detecting the same change doesn't notify twice.
+   */
+  const add = useCallback(
+    (incoming: AppNotification[]) => {
+      if (incoming.length === 0) return;
+      update((prev) => {
+        const known = new Set(prev.map((n) => n.id));
+        return [...incoming.filter((n) => !known.has(n.id)), ...prev];
+      });
+    },
+    [update]
+  );
+
+  const markAllRead = useCallback(() => {
+    update((prev) => prev.map((n) => (n.read ? n : { ...n, read: true })));
+  }, [update]);
+
+  const clear = useCallback(() => update(() => []), [update]);
+
+  const unreadCount = useMemo(
+    () => notifications.filter((n) => !n.read).length,
+    [notifications]
+  );
+
+  return { notifications, unreadCount, add, markAllRead, clear };
+};
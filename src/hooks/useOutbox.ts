@@ -0,0 +1,107 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { productService } from '../Services/dbService';
+import { OutboxEntry, offlineStore } from '../Services/offlineStore';
+
+// Listings that couldn't reach the server are retried this often while online,
+// since a flaky connection never fires the "online" event
+const RETRY_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Listings created while offline or on a connection that dropped. They are
+ * kept in IndexedDB, photos included, and submitted in order once the
+ * connection returns. Listings the server rejected are only sent again when
+ * the seller retries them.
+ * @param userId - Signed-in user, or null when signed out
+ * @param onPosted - Called after at least one queued listing was published
+ */
+export const useOutbox = (userId: string | null, onPosted: () => void) => {
+  const [pending, setPending] = useState<OutboxEntry[]>([]);
+  const [isFlushing, setIsFlushing] = useState(false);
+
+  const onPostedRef = useRef(onPosted);
+  onPostedRef.current = onPosted;
+  const flushingRef = useRef(false);
+
+  const refresh = useCallback(async () => {
+    setPending(userId ? await offlineStore.getOutbox(userId) : []);
+  }, [userId]);
+
+  /**
+   * Submits queued listings
+   * @param retryRejected - Also resend listings the server rejected before
+   */
+  const flush = useCallback(async (retryRejected = false) => {
+    if (!userId || flushingRef.current || !navigator.onLine) return;
+    flushingRef.current = true;
+    setIsFlushing(true);
+    let posted = 0;
+    try {
+      for (const entry of await offlineStore.getOutbox(userId)) {
+        if (entry.lastError && !retryRejected) continue;
+        const outcome = await productService.create(entry.payload);
+        if (outcome === 'created') {
+          await offlineStore.removeFromOutbox(entry.id);
+          posted++;
+          continue;
+        }
+        // Dropped connection: leave the rest for the next attempt
+        if (outcome === 'unreachable') break;
+        await offlineStore.updateOutboxEntry({
+          ...entry,
+          attempts: entry.attempts + 1,
+          lastError: 'The server rejected this listing.',
+        });
+      }
+    } finally {
+      flushingRef.current = false;
+      setIsFlushing(false);
+      await refresh();
+      if (posted > 0) onPostedRef.current();
+    }
+  }, [userId, refresh]);
+
+  useEffect(() => {
+    const retry = () => flush();
+    refresh().then(retry);
+    window.addEventListener('online', retry);
+    return () => window.removeEventListener('online', retry);
+  }, [refresh, flush]);
+
+  const hasRetryable = pending.some((entry) => !entry.lastError);
+  useEffect(() => {
+    if (!hasRetryable) return;
+    const timer = setInterval(() => flush(), RETRY_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [hasRetryable, flush]);
+
+  /**
+   * Queues a listing for submission
+   * @returns false when the listing couldn't be stored on this device
+   */
+  const enqueue = useCallback(
+    async (payload: OutboxEntry['payload']): Promise<boolean> => {
+      if (!userId) return false;
+      const saved = await offlineStore.addToOutbox({
+        id: crypto.randomUUID(),
+        userId,
+        payload,
+        createdAt: new Date().toISOString(),
+        attempts: 0,
+        lastError: null,
+      });
+      await refresh();
+      return saved;
+    },
+    [userId, refresh]
+  );
+
+  const discard = useCallback(
+    async (id: string) => {
+      await offlineStore.removeFromOutbox(id);
+      await refresh();
+    },
+    [refresh]
+  );
+
+  return { pending, isFlushing, enqueue, flush, discard };
+};
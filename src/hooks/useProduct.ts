@@ -0,0 +1,55 @@
+import { useEffect, useRef, useState } from 'react';
+import { Product } from '../types';
+import { productService } from '../Services/dbService';
+import { offlineStore } from '../Services/offlineStore';
+
+/**
+ * Loads a single listing by id, e.g. when a product link is opened directly.
+ * @param productId - Listing to load, or null when no listing is open
+ * Falls back to the copy saved in IndexedDB when offline.
+ * @param cached - Copy already in memory (from the feed) shown while refreshing
+ */
+export const useProduct = (productId: string | null, cached?: Product) => {
+  const [product, setProduct] = useState<Product | null>(cached ?? null);
+  const [isLoading, setIsLoading] = useState(Boolean(productId) && !cached);
+
+  // Read through a ref so the fetch only re-runs when the id changes
+  const cachedRef = useRef(cached);
+  cachedRef.current = cached;
+
+  useEffect(() => {
+    if (!productId) {
+      setProduct(null);
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    const fallback = cachedRef.current;
+    setProduct(fallback ?? null);
+    setIsLoading(!fallback);
+
+    productService
+      .fetchById(productId)
+      .then((fresh) => {
+        if (fresh) offlineStore.saveProduct(fresh);
+        else offlineStore.removeProduct(productId);
+        if (!cancelled) setProduct(fresh);
+      })
+      .catch(async () => {
+        // Keep showing the cached copy if the refresh fails
+        if (fallback) return;
+        const saved = await offlineStore.getProduct(productId);
+        if (!cancelled && saved) setProduct(saved);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [productId]);
+
+  return { product, setProduct, isLoading };
+};
@@ -0,0 +1,143 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ListingStatus, Product, ProductQuery } from '../types';
+import { productService } from '../Services/dbService';
+import { offlineStore } from '../Services/offlineStore';
+
+const FEED_ERROR = 'Unable to connect to the marketplace server. Please try again later.';
+
+/**
+ * Cursor-paginated product feed. Restarts from the first page whenever the
+ * query changes and appends further pages through loadMore. When the server
+ * can't be reached, the last copy of the same query saved in IndexedDB is
+ * shown instead and isStale is set.
+ * @param query - Server-side filters (search, category, sort, seller)
+ */
+export const useProductFeed = (query: ProductQuery) => {
+  const [products, setProducts] = useState<Product[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [loadMoreFailed, setLoadMoreFailed] = useState(false);
+  // Totals from the server, which cover pages not loaded yet
+  const [serverCounts, setServerCounts] = useState<Record<ListingStatus, number> | null>(
+    null
+  );
+  // When the feed was last fetched, set only while showing the offline copy
+  const [staleSince, setStaleSince] = useState<string | null>(null);
+
+  // Responses from an outdated query are dropped by comparing against this id
+  const requestId = useRef(0);
+  const queryKey = JSON.stringify(query);
+  // Query the current products were fetched for, so a query change can't
+  // save the previous results under the new key
+  const loadedKey = useRef<string | null>(null);
+
+  const reload = useCallback(async () => {
+    const id = ++requestId.current;
+    setIsLoading(true);
+    setError(null);
+    setLoadMoreFailed(false);
+    try {
+      const page = await productService.fetchPage(JSON.parse(queryKey));
+      if (id !== requestId.current) return;
+      loadedKey.current = queryKey;
+      setProducts(page.items);
+      setNextCursor(page.nextCursor);
+      setServerCounts(page.statusCounts);
+      setStaleSince(null);
+    } catch (err) {
+      console.error(err);
+      const cached = await offlineStore.getFeed(queryKey);
+      if (id !== requestId.current) return;
+      loadedKey.current = null;
+      if (cached) {
+        setProducts(cached.products);
+        setServerCounts(null);
+        // Further pages can't be fetched until the connection is back
+        setNextCursor(null);
+        setStaleSince(cached.savedAt);
+      } else {
+        setError(FEED_ERROR);
+      }
+    } finally {
+      if (id === requestId.current) setIsLoading(false);
+    }
+  }, [queryKey]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  // Keep the offline copy in step with what is shown, including local edits
+  // such as a listing being marked as sold
+  useEffect(() => {
+    if (isLoading || loadedKey.current !== queryKey) return;
+    offlineStore.saveFeed({
+      queryKey,
+      products,
+      nextCursor,
+      savedAt: new Date().toISOString(),
+    });
+  }, [isLoading, products, nextCursor, queryKey]);
+
+  // Replace the offline copy as soon as the connection returns
+  useEffect(() => {
+    if (!staleSince) return;
+    window.addEventListener('online', reload);
+    return () => window.removeEventListener('online', reload);
+  }, [staleSince, reload]);
+
+  const loadMore = useCallback(async () => {
+    if (isLoading || isLoadingMore || !nextCursor) return;
+
+    const id = requestId.current;
+    setIsLoadingMore(true);
+    setLoadMoreFailed(false);
+    try {
+      const page = await productService.fetchPage(JSON.parse(queryKey), nextCursor);
+      if (id !== requestId.current) return;
+      // New listings shift offsets between requests, so skip anything already shown
+      setProducts((prev) => {
+        const seen = new Set(prev.map((p) => p.id));
+        return [...prev, ...page.items.filter((p) => !seen.has(p.id))];
+      });
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      if (id === requestId.current) setLoadMoreFailed(true);
+      console.error(err);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [isLoading, isLoadingMore, nextCursor, queryKey]);
+
+  // Once every page is loaded the local count is exact and also reflects
+  // local edits (e.g. a listing just marked sold); until then the server's
+  // totals are used when it sends them
+  const statusCounts = useMemo(() => {
+    if (nextCursor !== null && serverCounts) return serverCounts;
+    const counts: Record<ListingStatus, number> = {
+      available: 0,
+      reserved: 0,
+      sold: 0,
+      withdrawn: 0,
+    };
+    products.forEach((product) => counts[product.status]++);
+    return counts;
+  }, [products, nextCursor, serverCounts]);
+
+  return {
+    products,
+    statusCounts,
+    setProducts,
+    isLoading,
+    isLoadingMore,
+    error,
+    loadMoreFailed,
+    isStale: staleSince !== null,
+    staleSince,
+    hasMore: nextCursor !== null,
+    loadMore,
+    reload,
+  };
+};
@@ -0,0 +1,136 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { AppNotification } from '../types';
+import { productService } from '../Services/dbService';
+import { SavedSearch, getSavedSearches, saveSavedSearches } from '../store';
+import { BrowseFilters, filtersToQuery } from '../utils/productFilters';
+import { detectSavedSearchMatches } from '../utils/savedSearchAlerts';
+
+// How often saved searches are rerun against the feed
+const REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+// Only the newest listings are checked on each run
+const MATCHES_PER_CHECK = 20;
+
+/**
+ * The signed-in user's saved searches. Reruns them periodically and reports
+ * newly listed matches through onAlerts.
+ * @param userId - Signed-in user, or null when signed out
+ * @param onAlerts - Receives newly detected alerts
+ */
+export const useSavedSearches = (
+  userId: string | null,
+  onAlerts: (alerts: AppNotification[]) => void
+) => {
+  const [searches, setSearches] = useState<SavedSearch[]>(() =>
+    userId ? getSavedSearches(userId) : []
+  );
+
+  const onAlertsRef = useRef(onAlerts);
+  onAlertsRef.current = onAlerts;
+
+  const update = useCallback(
+    (change: (prev: SavedSearch[]) => SavedSearch[]) => {
+      if (!userId) return;
+      setSearches((prev) => {
+        const next = change(prev);
+        saveSavedSearches(userId, next);
+        return next;
+      });
+    },
+    [userId]
+  );
+
+  const recheck = useCallback(async () => {
+    if (!userId) return;
+    const checked = new Map<string, SavedSearch>();
+    const alerts: AppNotification[] = [];
+
+    // Sequential so a long list doesn't flood the backend
+    for (const search of getSavedSearches(userId)) {
+      try {
+        const page = await productService.fetchPage(
+          filtersToQuery({ ...search.filters, sort: 'newest', status: 'active' }),
+          null,
+          MATCHES_PER_CHECK
+        );
+        const result = detectSavedSearchMatches(
+          search,
+          page.items.filter((product) => product.userId !== userId)
+        );
+        checked.set(search.id, result.search);
+        alerts.push(...result.alerts);
+      } catch {
+        // Try again on the next run
+      }
+    }
+
+    // Searches added or removed meanwhile are left alone, and one opened
+    // meanwhile has nothing new to show
+    update((prev) =>
+      prev.map((search) => {
+        const result = checked.get(search.id);
+        if (!result) return search;
+        return result.lastVisitedAt === search.lastVisitedAt
+          ? result
+          : { ...result, lastVisitedAt: search.lastVisitedAt, newCount: 0 };
+      })
+    );
+    onAlertsRef.current(alerts);
+  }, [userId, update]);
+
+  useEffect(() => {
+    setSearches(userId ? getSavedSearches(userId) : []);
+    recheck();
+    if (!userId) return;
+    const timer = window.setInterval(recheck, REFRESH_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [recheck, userId]);
+
+  /**
+   * Saves the given filters. Only listings added from now on are reported.
+   */
+  const save = useCallback(
+    (name: string, filters: BrowseFilters) => {
+      const now = new Date().toISOString();
+      update((prev) => [
+        ...prev,
+        {
+          id: crypto.randomUUID(),
+          name,
+          filters,
+          createdAt: now,
+          lastCheckedAt: now,
+          lastVisitedAt: now,
+          newCount: 0,
+        },
+      ]);
+    },
+    [update]
+  );
+
+  const remove = useCallback(
+    (id: string) => update((prev) => prev.filter((search) => search.id !== id)),
+    [update]
+  );
+
+  /**
+   * Clears the "new since last visit" count when the search is opened
+   */
+  const markVisited = useCallback(
+    (id: string) =>
+      update((prev) =>
+        prev.map((search) =>
+          search.id === id
+            ? { ...search, lastVisitedAt: new Date().toISOString(), newCount: 0 }
+            : search
+        )
+      ),
+    [update]
+  );
+
+  const totalNew = useMemo(
+    () => searches.reduce((sum, search) => sum + search.newCount, 0),
+    [searches]
+  );
+
+  return { searches, totalNew, save, remove, markVisited, recheck };
+};
@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { chatService } from '../Services/chatService';
+
+/**
+ * Live unread message counts for the signed-in user, per conversation
+ * @param userId - Signed-in user, or null when signed out
+ */
+export const useUnreadMessages = (userId: string | null) => {
+  const [counts, setCounts] = useState<Record<string, number>>({});
+
+  useEffect(() => {
+    setCounts({});
+    if (!userId) return;
+
+    let cancelled = false;
+    chatService.fetchUnreadCounts(userId).then((initial) => {
+      if (!cancelled) setCounts(initial);
+    });
+
+    const unsubscribe = chatService.subscribeToInbox(userId, (message) => {
+      setCounts((prev) => ({
+        ...prev,
+        [message.conversationId]: (prev[message.conversationId] ?? 0) + 1,
+      }));
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [userId]);
+
+  const markConversationRead = useCallback(
+    async (conversationId: string) => {
+      if (!userId) return;
+      setCounts((prev) => {
+        const next = { ...prev };
+        delete next[conversationId];
+        return next;
+      });
+      await chatService.markRead(conversationId, userId);
+    },
+    [userId]
+  );
+
+  const total = useMemo(
+    () => Object.values(counts).reduce((sum, count) => sum + count, 0),
+    [counts]
+  );
+
+  return { counts, total, markConversationRead };
+};
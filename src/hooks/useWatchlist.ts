@@ -0,0 +1,101 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { AppNotification, Favorite, Product } from '../types';
+import { favoritesService } from '../Services/dbService';
+import { getWatchlistSnapshot, saveWatchlistSnapshot } from '../store';
+import { detectWatchlistAlerts } from '../utils/watchlistAlerts';
+
+// How often saved listings are rechecked for price drops and sales
+const REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * The signed-in user's saved listings. Rechecks them periodically and
+ * reports price drops and sales through onAlerts.
+ * @param userId - Signed-in user, or null when signed out
+ * @param onAlerts - Receives newly detected alerts
+ */
+export const useWatchlist = (
+  userId: string | null,
+  onAlerts: (alerts: AppNotification[]) => void
+) => {
+  const [favorites, setFavorites] = useState<Favorite[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const onAlertsRef = useRef(onAlerts);
+  onAlertsRef.current = onAlerts;
+
+  const reload = useCallback(async () => {
+    if (!userId) {
+      setFavorites([]);
+      return;
+    }
+    setIsLoading(true);
+    setError(null);
+    try {
+      const fresh = await favoritesService.fetchAll(userId);
+      setFavorites(fresh);
+
+      const { alerts, snapshot } = detectWatchlistAlerts(fresh, getWatchlistSnapshot(userId));
+      saveWatchlistSnapshot(userId, snapshot);
+      onAlertsRef.current(alerts);
+    } catch {
+      setError('Unable to load your saved items. Please try again later.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    reload();
+    if (!userId) return;
+    const timer = window.setInterval(reload, REFRESH_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [reload, userId]);
+
+  const savedIds = useMemo(
+    () => new Set(favorites.map((f) => f.product.id)),
+    [favorites]
+  );
+
+  /**
+   * Saves or unsaves a listing, updating the UI before the request finishes
+   * @returns false when the request failed and the change was rolled back
+   */
+  const toggle = useCallback(
+    async (product: Product): Promise<boolean> => {
+      if (!userId) return false;
+      const wasSaved = savedIds.has(product.id);
+      const previous = favorites;
+
+      setFavorites((prev) =>
+        wasSaved
+          ? prev.filter((f) => f.product.id !== product.id)
+          : [{ product, savedAt: new Date().toISOString() }, ...prev]
+      );
+
+      const ok = wasSaved
+        ? await favoritesService.remove(userId, product.id)
+        : await favoritesService.add(userId, product.id);
+
+      if (!ok) {
+        setFavorites(previous);
+        return false;
+      }
+
+      // Start tracking from the price the user saved it at
+      const snapshot = getWatchlistSnapshot(userId);
+      if (wasSaved) {
+        delete snapshot[product.id];
+      } else {
+        snapshot[product.id] = { price: product.price, status: product.status };
+      }
+      saveWatchlistSnapshot(userId, snapshot);
+      return true;
+    },
+    [userId, favorites, savedIds]
+  );
+
+  const isSaved = useCallback((productId: string) => savedIds.has(productId), [savedIds]);
+
+  return { favorites, isLoading, error, isSaved, toggle, reload };
+};
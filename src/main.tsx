@@ -2,6 +2,19 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
+import { removeLegacyData } from './store'
+
+removeLegacyData()
+
+// Offline support. Skipped in development so Vite's modules are never served
+// from a stale cache.
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((error) => {
+      console.error('Service worker registration failed:', error)
+    })
+  })
+}
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
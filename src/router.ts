@@ -0,0 +1,156 @@
+import { useMemo, useSyncExternalStore } from 'react';
+
+// Minimal history-based router. Every page rendered by App has a URL so
+// listings can be shared, refreshed and reached with the browser back button.
+
+export type Route =
+  | { page: 'home' }
+  | { page: 'product-detail'; productId: string }
+  | { page: 'edit'; productId: string }
+  | { page: 'create' }
+  | { page: 'dashboard' }
+  | { page: 'settings' }
+  | { page: 'login' }
+  | { page: 'register' }
+  | { page: 'verify-email' }
+  | { page: 'forgot-password' }
+  | { page: 'reset-password' }
+  | { page: 'inbox'; conversationId: string | null }
+  | { page: 'saved' }
+  | { page: 'units' }
+  | { page: 'seller'; userId: string }
+  | { page: 'moderation' }
+  | { page: 'admin' }
+  | { page: 'not-found'; path: string };
+
+export const paths = {
+  home: () => '/',
+  product: (id: string) => `/products/${encodeURIComponent(id)}`,
+  editProduct: (id: string) => `/products/${encodeURIComponent(id)}/edit`,
+  create: () => '/sell',
+  dashboard: () => '/dashboard',
+  settings: () => '/settings',
+  login: () => '/login',
+  register: () => '/register',
+  // Emailed links carry their token in the query string
+  verifyEmail: (token?: string) =>
+    token ? `/verify-email?token=${encodeURIComponent(token)}` : '/verify-email',
+  forgotPassword: () => '/forgot-password',
+  resetPassword: () => '/reset-password',
+  saved: () => '/saved',
+  // Listings for the given course units; codes go in the query string
+  units: (codes: string[] = []) =>
+    codes.length > 0 ? `/units?codes=${encodeURIComponent(codes.join(','))}` : '/units',
+  inbox: () => '/inbox',
+  conversation: (id: string) => `/inbox/${encodeURIComponent(id)}`,
+  moderation: () => '/moderation',
+  admin: () => '/admin',
+  seller: (userId: string) => `/sellers/${encodeURIComponent(userId)}`,
+};
+
+export const parseRoute = (pathname: string): Route => {
+  // Ignore trailing slashes so "/dashboard/" and "/dashboard" are the same page
+  const path = pathname.replace(/\/+$/, '') || '/';
+  let segments: string[];
+  try {
+    segments = path.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    // Malformed escapes such as "%E0" can't name any page
+    return { page: 'not-found', path };
+  }
+
+  if (segments.length === 0) return { page: 'home' };
+
+  if (segments.length === 1) {
+    switch (segments[0]) {
+      case 'sell':
+        return { page: 'create' };
+      case 'dashboard':
+        return { page: 'dashboard' };
+      case 'settings':
+        return { page: 'settings' };
+      case 'login':
+        return { page: 'login' };
+      case 'register':
+        return { page: 'register' };
+      case 'verify-email':
+        return { page: 'verify-email' };
+      case 'forgot-password':
+        return { page: 'forgot-password' };
+      case 'reset-password':
+        return { page: 'reset-password' };
+      case 'inbox':
+        return { page: 'inbox', conversationId: null };
+      case 'saved':
+        return { page: 'saved' };
+      case 'units':
+        return { page: 'units' };
+      case 'moderation':
+        return { page: 'moderation' };
+      case 'admin':
+        return { page: 'admin' };
+    }
+  }
+
+  if (segments.length === 2 && segments[0] === 'inbox') {
+    return { page: 'inbox', conversationId: segments[1] };
+  }
+
+  if (segments.length === 2 && segments[0] === 'sellers') {
+    return { page: 'seller', userId: segments[1] };
+  }
+
+  if (segments.length === 2 && segments[0] === 'products') {
+    return { page: 'product-detail', productId: segments[1] };
+  }
+
+  if (segments.length === 3 && segments[0] === 'products' && segments[2] === 'edit') {
+    return { page: 'edit', productId: segments[1] };
+  }
+
+  return { page: 'not-found', path };
+};
+
+const subscribe = (onChange: () => void) => {
+  window.addEventListener('popstate', onChange);
+  return () => window.removeEventListener('popstate', onChange);
+};
+
+const getLocationSnapshot = () => window.location.pathname + window.location.search;
+
+/**
+ * Pushes a new history entry (or replaces the current one) and notifies
+ * every component subscribed through useLocation. Replacing keeps the scroll
+ * position, since it is used for in-page state such as filters.
+ */
+export const navigate = (to: string, options: { replace?: boolean } = {}) => {
+  if (to === getLocationSnapshot()) return;
+
+  if (options.replace) {
+    window.history.replaceState(null, '', to);
+  } else {
+    window.history.pushState(null, '', to);
+  }
+  window.dispatchEvent(new PopStateEvent('popstate'));
+  if (!options.replace) window.scrollTo(0, 0);
+};
+
+/**
+ * Subscribes to the browser location
+ * @returns Current pathname and search string
+ */
+export const useLocation = () => {
+  const location = useSyncExternalStore(subscribe, getLocationSnapshot);
+  return useMemo(() => {
+    const url = new URL(location, window.location.origin);
+    return { pathname: url.pathname, search: url.search };
+  }, [location]);
+};
+
+/**
+ * Resolves the current location to one of the app's pages
+ */
+export const useRoute = (): Route => {
+  const { pathname } = useLocation();
+  return useMemo(() => parseRoute(pathname), [pathname]);
+};
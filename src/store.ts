@@ -1,17 +1,102 @@
-import { User } from './types';
+import { AppNotification, AuthSession, ListingStatus } from './types';
+import { BrowseFilters, DEFAULT_FILTERS } from './utils/productFilters';
 
 // We removed MOCK_PRODUCTS to ensure the app stays in sync with your PostgreSQL database.
-// Real data will be fetched via productService.fetchAll() on app load.
+// Real data will be fetched via productService.fetchPage() on app load.
 
-export const getStoredUser = (): User | null => {
-  const stored = localStorage.getItem('dkut_marketplace_user');
-  return stored ? JSON.parse(stored) : null;
+const SESSION_KEY = 'dkut_marketplace_session';
+// Sessions saved before login returned a token; they can't authenticate
+const LEGACY_USER_KEY = 'dkut_marketplace_user';
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+/**
+ * Drops data left by older versions of the app; called once at startup
+ */
+export const removeLegacyData = () => {
+  localStorage.removeItem(LEGACY_USER_KEY);
 };
 
-export const saveUser = (user: User | null) => {
-  if (user) {
-    localStorage.setItem('dkut_marketplace_user', JSON.stringify(user));
+export const getStoredSession = (): AuthSession | null => {
+  const session = readJson<Partial<AuthSession> | null>(SESSION_KEY, null);
+  return session?.user && session?.token ? (session as AuthSession) : null;
+};
+
+export const saveSession = (session: AuthSession | null) => {
+  if (session) {
+    localStorage.setItem(SESSION_KEY, JSON.stringify(session));
   } else {
-    localStorage.removeItem('dkut_marketplace_user');
+    localStorage.removeItem(SESSION_KEY);
   }
 };
+
+export const getAuthToken = (): string | null => getStoredSession()?.token ?? null;
+
+// Per-user data is namespaced so several students can share a device
+const userKey = (key: string, userId: string) => `dkut_marketplace_${key}:${userId}`;
+
+// Course units the buyer last browsed by; kept per device, not per account
+const MY_UNITS_KEY = 'dkut_marketplace_my_units';
+
+export const getMyUnits = (): string[] => readJson(MY_UNITS_KEY, []);
+
+export const saveMyUnits = (codes: string[]) => {
+  localStorage.setItem(MY_UNITS_KEY, JSON.stringify(codes));
+};
+
+/**
+ * Removes everything stored on this device for a user, e.g. after the
+ * account is deleted
+ */
+export const clearUserData = (userId: string) => {
+  ['notifications', 'watchlist_snapshot', 'saved_searches'].forEach((key) =>
+    localStorage.removeItem(userKey(key, userId))
+  );
+};
+
+export const getStoredNotifications = (userId: string): AppNotification[] =>
+  readJson(userKey('notifications', userId), []);
+
+export const saveNotifications = (userId: string, notifications: AppNotification[]) => {
+  localStorage.setItem(userKey('notifications', userId), JSON.stringify(notifications));
+};
+
+// Last price and status seen for each watched listing, used to detect changes
+export type WatchlistSnapshot = Record<string, { price: number; status: ListingStatus }>;
+
+export const getWatchlistSnapshot = (userId: string): WatchlistSnapshot =>
+  readJson(userKey('watchlist_snapshot', userId), {});
+
+export const saveWatchlistSnapshot = (userId: string, snapshot: WatchlistSnapshot) => {
+  localStorage.setItem(userKey('watchlist_snapshot', userId), JSON.stringify(snapshot));
+};
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  filters: BrowseFilters;
+  createdAt: string;
+  // Creation time of the newest match already notified about
+  lastCheckedAt: string;
+  // Matches listed after this are shown as "new since last visit"
+  lastVisitedAt: string;
+  newCount: number;
+}
+
+// Searches saved by older versions lack filters added since
+export const getSavedSearches = (userId: string): SavedSearch[] =>
+  readJson<SavedSearch[]>(userKey('saved_searches', userId), []).map((search) => ({
+    ...search,
+    filters: { ...DEFAULT_FILTERS, ...search.filters },
+  }));
+
+export const saveSavedSearches = (userId: string, searches: SavedSearch[]) => {
+  localStorage.setItem(userKey('saved_searches', userId), JSON.stringify(searches));
+};
@@ -16,11 +16,83 @@ export enum Condition {
   UsedFair = 'Used - Fair'
 }
 
+// Entry in the bundled DeKUT unit catalog (see utils/unitCatalog)
+export interface CourseUnit {
+  // Normalized form, e.g. "SMA 2101"
+  code: string;
+  title: string;
+}
+
+// Category-specific details keyed by field (see utils/categoryAttributes)
+export type ListingAttributes = Record<string, string>;
+
+// Where a listing is in its lifecycle; owners can move it back and forth
+// (see utils/listingStatus for the allowed transitions)
+export enum ListingStatus {
+  Available = 'available',
+  Reserved = 'reserved',
+  Sold = 'sold',
+  // Taken down by the seller; only the seller still sees it
+  Withdrawn = 'withdrawn'
+}
+
+// When the listing last entered each status; null if it never has
+export type StatusTimestamps = Record<ListingStatus, string | null>;
+
+// Each role includes the powers of the ones before it
+export enum UserRole {
+  Student = 'student',
+  Moderator = 'moderator',
+  Admin = 'admin'
+}
+
 export interface User {
   id: string;
   email: string;
   fullName: string;
   phone: string;
+  role: UserRole;
+  // Unverified accounts can browse and message but not list items
+  emailVerified: boolean;
+  // Suspended accounts can browse but not sign in, list or message
+  suspendedUntil: string | null;
+  createdAt: string;
+}
+
+// Public part of a User, shown on seller profiles. Contact details are
+// never included.
+export type PublicProfile = Pick<User, 'id' | 'fullName' | 'createdAt'> & {
+  // Same aggregate as Product.sellerRating
+  sellerRating: RatingSummary;
+};
+
+// How quickly a seller answers buyers, computed from their conversations
+export interface ResponseStats {
+  conversations: number;
+  // Share of conversations the seller replied to, between 0 and 1
+  responseRate: number;
+  // Median time to the seller's first reply; null until they have replied
+  medianResponseMinutes: number | null;
+}
+
+// Average of the star ratings someone has received
+export interface RatingSummary {
+  average: number;
+  count: number;
+}
+
+// Left by the buyer or the seller after a sale with a recorded buyer
+export interface Review {
+  id: string;
+  productId: string;
+  reviewerId: string;
+  reviewerName: string;
+  revieweeId: string;
+  // Whether the reviewer was the buyer or the seller in the sale
+  reviewerRole: 'buyer' | 'seller';
+  // 1 to 5 stars
+  rating: number;
+  comment: string;
   createdAt: string;
 }
 
@@ -29,16 +101,249 @@ export interface Product {
   userId: string;
   // seller contact info — only phone is kept (course/year removed)
   sellerName: string;
+  // Empty unless the seller opted in to WhatsApp contact
   sellerPhone: string;
+  allowWhatsapp: boolean;
   title: string;
   description: string;
   price: number;
+  // Buyers can't make offers on firm-price listings
+  isFirmPrice: boolean;
   category: Category;
   condition: Condition;
+  attributes: ListingAttributes;
+  // Course units the item is for; Books and Drawing Instruments only
+  unitCodes: string[];
   images: string[];
-  isSold: boolean;
+  status: ListingStatus;
+  // Amount of the accepted offer while the listing is reserved for that buyer
+  agreedPrice: number | null;
+  statusChangedAt: StatusTimestamps;
+  // Set when the seller recorded who bought the item, or accepted their offer
+  buyerId: string | null;
+  // Ratings the seller received from buyers; reviews left for them as a buyer
+  // don't count
+  sellerRating: RatingSummary;
+  // Hidden from the feed after enough distinct reports, until a moderator
+  // restores or removes it
+  isHidden: boolean;
   createdAt: string;
+  // Editing or renewing a listing restarts its expiry (see utils/listingExpiry)
   updatedAt: string;
+  // Last "bump to top"; the newest-first feed orders by this when set
+  bumpedAt: string | null;
+}
+
+export enum ReportReason {
+  Scam = 'scam',
+  Prohibited = 'prohibited',
+  Offensive = 'offensive',
+  Misleading = 'misleading',
+  Duplicate = 'duplicate',
+  Other = 'other'
+}
+
+export interface Report {
+  id: string;
+  productId: string;
+  reporterId: string;
+  reason: ReportReason;
+  details: string;
+  createdAt: string;
+}
+
+// A reported listing waiting for a moderator, with every report against it
+export interface ModerationItem {
+  product: Product;
+  reports: Report[];
+}
+
+// Categories are fixed in code; admins choose which ones accept new listings
+export interface CategorySetting {
+  category: Category;
+  enabled: boolean;
+}
+
+// Marketplace-wide numbers for the admin console
+export interface MarketplaceStats {
+  totalListings: number;
+  soldListings: number;
+  listingsByCategory: { category: Category; count: number }[];
+  // Most recent week last; weekStart is the Monday of each week
+  signupsPerWeek: { weekStart: string; count: number }[];
+}
+
+// Buyer interactions recorded for seller analytics
+export type ListingEventType = 'view' | 'card-click' | 'whatsapp-click' | 'message-click';
+
+export interface ListingStats {
+  productId: string;
+  views: number;
+  cardClicks: number;
+  // WhatsApp and in-app message button clicks
+  contactClicks: number;
+  favorites: number;
+  // Whole days from listing to marked sold; null while unsold
+  daysToSell: number | null;
+}
+
+export interface SellerAnalytics {
+  listings: ListingStats[];
+  // Sum of the prices of the seller's sold listings
+  totalRevenue: number;
+  // One entry per day over the requested range, oldest first
+  daily: { date: string; views: number; contactClicks: number }[];
+}
+
+// Fields the seller fills in on the listing form
+export type ListingInput = Pick<
+  Product,
+  | 'title'
+  | 'description'
+  | 'price'
+  | 'isFirmPrice'
+  | 'category'
+  | 'condition'
+  | 'attributes'
+  | 'unitCodes'
+  | 'allowWhatsapp'
+>;
+
+// Problems the listing assistant can spot in a seller's photos
+export enum PhotoIssueKind {
+  Blurry = 'blurry',
+  Dark = 'dark',
+  // A manufacturer or web image rather than a photo of the actual item
+  Stock = 'stock',
+  Other = 'other'
+}
+
+export interface PhotoIssue {
+  // 1-based position of the photo among those sent to the assistant
+  photo: number;
+  kind: PhotoIssueKind;
+  message: string;
+}
+
+// What the listing assistant made of the seller's photos; fields it couldn't
+// tell from them are null
+export interface ListingSuggestion {
+  title: string | null;
+  category: Category | null;
+  condition: Condition | null;
+  description: string | null;
+  photoIssues: PhotoIssue[];
+}
+
+export enum OfferStatus {
+  Pending = 'pending',
+  Accepted = 'accepted',
+  Declined = 'declined',
+  // Answered with a counter-offer, which is a new Offer
+  Countered = 'countered'
+}
+
+/**
+ * A price proposed on a listing: a buyer's offer or the seller's counter.
+ * A negotiation with one buyer is a chain of these with at most one pending.
+ */
+export interface Offer {
+  id: string;
+  productId: string;
+  productTitle: string;
+  buyerId: string;
+  buyerName: string;
+  // Who proposed this amount; the other party responds
+  fromRole: 'buyer' | 'seller';
+  amount: number;
+  status: OfferStatus;
+  createdAt: string;
+  respondedAt: string | null;
+}
+
+// Listing-scoped thread between a buyer and the seller (stored in Supabase)
+export interface Conversation {
+  id: string;
+  productId: string;
+  productTitle: string;
+  buyerId: string;
+  buyerName: string;
+  sellerId: string;
+  sellerName: string;
+  lastMessageAt: string;
+  lastMessagePreview: string;
+  createdAt: string;
+}
+
+export interface Message {
+  id: string;
+  conversationId: string;
+  senderId: string;
+  recipientId: string;
+  body: string;
+  createdAt: string;
+  readAt: string | null;
+}
+
+// A listing on a user's watchlist
+export interface Favorite {
+  product: Product;
+  savedAt: string;
+}
+
+export type NotificationKind =
+  | 'price-drop'
+  | 'sold'
+  | 'saved-search'
+  | 'expiring'
+  | 'expired';
+
+// In-app alert shown from the Navbar bell
+export interface AppNotification {
+  id: string;
+  kind: NotificationKind;
+  productId: string;
+  title: string;
+  message: string;
+  createdAt: string;
+  read: boolean;
+}
+
+export type ProductSort = 'newest' | 'price-asc' | 'price-desc';
+
+// Server-side filters for the paginated product feed
+export interface ProductQuery {
+  search?: string;
+  category?: Category;
+  minPrice?: number;
+  maxPrice?: number;
+  conditions?: Condition[];
+  // Category attribute filters, by field key
+  attributes?: ListingAttributes;
+  // Listings tagged with any of these course units
+  unitCodes?: string[];
+  sort?: ProductSort;
+  // Restrict the feed to one seller's listings (used by the dashboard)
+  userId?: string;
+  // Defaults to available and reserved listings
+  statuses?: ListingStatus[];
+  // Expired listings are only returned to their owner's dashboard
+  includeExpired?: boolean;
+}
+
+export interface ProductPage {
+  items: Product[];
+  // Opaque cursor for the following page; null once the end is reached
+  nextCursor: string | null;
+  // Listings matching the query in each status, across all pages; null from
+  // backends that don't count them
+  statusCounts: Record<ListingStatus, number> | null;
+}
+
+// Signed-in user plus the bearer token sent with mutating API requests
+export interface AuthSession {
+  user: User;
+  token: string;
 }
 
 export interface AuthState {
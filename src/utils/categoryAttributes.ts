@@ -0,0 +1,91 @@
+/**
+ * Category Attributes
+ * Structured fields each category adds to the listing form, shown as a spec
+ * table on the listing page and, where marked filterable, as browse filters.
+ * Values are stored as strings keyed by field key; categories without an
+ * entry here have no extra fields.
+ */
+
+import { Category, ListingAttributes } from '../types';
+
+export interface AttributeField {
+  key: string;
+  label: string;
+  // "select" fields must use one of options; filters on them match exactly,
+  // filters on text fields match any value containing the input
+  type: 'text' | 'number' | 'select';
+  options?: string[];
+  // Shown after number values, e.g. "cm"
+  unit?: string;
+  placeholder?: string;
+  filterable: boolean;
+}
+
+export const CATEGORY_ATTRIBUTES: Partial<Record<Category, AttributeField[]>> = {
+  [Category.Electronics]: [
+    { key: 'brand', label: 'Brand', type: 'text', placeholder: 'e.g. HP', filterable: true },
+    { key: 'model', label: 'Model', type: 'text', placeholder: 'e.g. EliteBook 840 G5', filterable: false },
+    {
+      key: 'ram',
+      label: 'RAM',
+      type: 'select',
+      options: ['2 GB', '4 GB', '8 GB', '16 GB', '32 GB'],
+      filterable: true,
+    },
+    {
+      key: 'storage',
+      label: 'Storage',
+      type: 'select',
+      options: ['32 GB', '64 GB', '128 GB', '256 GB', '512 GB', '1 TB', '2 TB'],
+      filterable: true,
+    },
+  ],
+  [Category.Clothing]: [
+    {
+      key: 'size',
+      label: 'Size',
+      type: 'select',
+      options: ['XS', 'S', 'M', 'L', 'XL', 'XXL'],
+      filterable: true,
+    },
+    {
+      key: 'gender',
+      label: 'Gender',
+      type: 'select',
+      options: ['Men', 'Women', 'Unisex'],
+      filterable: true,
+    },
+  ],
+  // Course units are tags of their own (Product.unitCodes, utils/unitCatalog)
+  [Category.Books]: [
+    { key: 'author', label: 'Author', type: 'text', filterable: true },
+    { key: 'edition', label: 'Edition', type: 'text', placeholder: 'e.g. 3rd', filterable: false },
+  ],
+  [Category.Furniture]: [
+    { key: 'width', label: 'Width', type: 'number', unit: 'cm', filterable: false },
+    { key: 'depth', label: 'Depth', type: 'number', unit: 'cm', filterable: false },
+    { key: 'height', label: 'Height', type: 'number', unit: 'cm', filterable: false },
+  ],
+};
+
+export const attributeFields = (category: Category | 'All'): AttributeField[] =>
+  category === 'All' ? [] : CATEGORY_ATTRIBUTES[category] ?? [];
+
+/**
+ * Keeps only the non-empty values that belong to the category's fields, e.g.
+ * after the seller switched category on the form
+ */
+export const pickAttributes = (
+  category: Category | 'All',
+  attributes: ListingAttributes
+): ListingAttributes => {
+  const picked: ListingAttributes = {};
+  attributeFields(category).forEach(({ key }) => {
+    const value = attributes[key]?.trim();
+    if (value) picked[key] = value;
+  });
+  return picked;
+};
+
+export const formatAttribute = (field: AttributeField, value: string): string =>
+  field.unit ? `${value} ${field.unit}` : value;
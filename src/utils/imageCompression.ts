@@ -0,0 +1,110 @@
+/**
+ * Image Compression Utilities
+ * Downscales and re-encodes listing photos in the browser before upload, so
+ * multi-megabyte phone photos don't have to travel over campus Wi-Fi
+ */
+
+export interface CompressionOptions {
+  // Longest edge of the output image, in pixels
+  maxDimension: number;
+  // Encoder quality between 0 and 1
+  quality: number;
+  mimeType: 'image/webp' | 'image/jpeg';
+}
+
+export interface CompressedImage {
+  file: File;
+  originalSize: number;
+  compressedSize: number;
+}
+
+const env = import.meta.env;
+
+const parseEnvNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export const DEFAULT_COMPRESSION: CompressionOptions = {
+  maxDimension: parseEnvNumber(env.VITE_IMAGE_MAX_DIMENSION, 1600),
+  quality: Math.min(1, parseEnvNumber(env.VITE_IMAGE_QUALITY, 0.8)),
+  mimeType: env.VITE_IMAGE_FORMAT === 'jpeg' ? 'image/jpeg' : 'image/webp',
+};
+
+// Animated or vector formats would lose information when flattened to a bitmap
+const SKIPPED_TYPES = ['image/gif', 'image/svg+xml'];
+
+const EXTENSIONS: Record<CompressionOptions['mimeType'], string> = {
+  'image/webp': 'webp',
+  'image/jpeg': 'jpg',
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number) =>
+  new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, quality));
+
+/**
+ * Resizes and re-encodes an image file. The bitmap is decoded with
+ * imageOrientation "from-image", which applies the EXIF rotation so photos
+ * taken in portrait don't upload sideways.
+ * @param file - Photo selected by the user
+ * @param options - Target size, quality and format
+ * @returns The compressed file, or the original when compressing wouldn't help
+ */
+export const compressImage = async (
+  file: File,
+  options: CompressionOptions = DEFAULT_COMPRESSION
+): Promise<CompressedImage> => {
+  const unchanged = { file, originalSize: file.size, compressedSize: file.size };
+  if (!file.type.startsWith('image/') || SKIPPED_TYPES.includes(file.type)) {
+    return unchanged;
+  }
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch (error) {
+    console.warn(`Could not decode "${file.name}", uploading it unchanged:`, error);
+    return unchanged;
+  }
+
+  const scale = Math.min(1, options.maxDimension / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    bitmap.close();
+    return unchanged;
+  }
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  let mimeType = options.mimeType;
+  let blob = await canvasToBlob(canvas, mimeType, options.quality);
+  // Browsers without a WebP encoder silently return PNG instead
+  if (!blob || blob.type !== mimeType) {
+    mimeType = 'image/jpeg';
+    blob = await canvasToBlob(canvas, mimeType, options.quality);
+  }
+  if (!blob) return unchanged;
+
+  // Small, already-optimized photos can grow when re-encoded
+  if (blob.size >= file.size && scale === 1) return unchanged;
+
+  const baseName = file.name.replace(/\.[^.]+$/, '') || 'photo';
+  const compressed = new File([blob], `${baseName}.${EXTENSIONS[mimeType]}`, {
+    type: mimeType,
+    lastModified: Date.now(),
+  });
+
+  return { file: compressed, originalSize: file.size, compressedSize: compressed.size };
+};
+
+/**
+ * Formats a byte count for display, e.g. 5242880 -> "5.0 MB"
+ */
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
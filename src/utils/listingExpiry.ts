@@ -0,0 +1,101 @@
+/**
+ * Listing Expiry
+ * Available and reserved listings expire a fixed number of days after they were created or
+ * last updated (editing or renewing counts). The backend applies the same rule
+ * to hide expired listings from the feed; VITE_LISTING_LIFETIME_DAYS must
+ * match its setting.
+ */
+
+import { AppNotification, Product } from '../types';
+import { isActive } from './listingStatus';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const parseEnvNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export const LISTING_LIFETIME_DAYS = parseEnvNumber(
+  import.meta.env.VITE_LISTING_LIFETIME_DAYS,
+  30
+);
+
+// Owners are reminded this many days before a listing expires
+export const EXPIRY_REMINDER_DAYS = 3;
+
+// Minimum time between two bumps of the same listing; enforced by the backend
+export const BUMP_COOLDOWN_HOURS = 24;
+
+export const listingExpiresAt = (product: Product): Date => {
+  const lastActive = Math.max(
+    new Date(product.createdAt).getTime(),
+    new Date(product.updatedAt).getTime()
+  );
+  return new Date(lastActive + LISTING_LIFETIME_DAYS * DAY_MS);
+};
+
+/**
+ * Whole days until the listing expires; 0 or less once it has expired
+ */
+export const daysUntilExpiry = (product: Product, now = Date.now()): number =>
+  Math.ceil((listingExpiresAt(product).getTime() - now) / DAY_MS);
+
+export const isExpired = (product: Product, now = Date.now()): boolean =>
+  isActive(product) && listingExpiresAt(product).getTime() <= now;
+
+export const isExpiringSoon = (product: Product, now = Date.now()): boolean =>
+  isActive(product) &&
+  !isExpired(product, now) &&
+  daysUntilExpiry(product, now) <= EXPIRY_REMINDER_DAYS;
+
+/**
+ * When the listing can next be bumped, or null if it can be bumped now
+ */
+export const nextBumpAt = (product: Product, now = Date.now()): Date | null => {
+  if (!product.bumpedAt) return null;
+  const next = new Date(product.bumpedAt).getTime() + BUMP_COOLDOWN_HOURS * 60 * 60 * 1000;
+  return next > now ? new Date(next) : null;
+};
+
+/**
+ * Reminders for the owner's listings that are about to expire or just did.
+ * Ids include the expiry date, so a renewed listing is reminded about again
+ * next time round.
+ */
+export const detectExpiryReminders = (products: Product[]): AppNotification[] => {
+  const now = Date.now();
+  const createdAt = new Date(now).toISOString();
+
+  return products.flatMap((product): AppNotification[] => {
+    const expiresOn = listingExpiresAt(product).toISOString();
+    if (isExpired(product, now)) {
+      return [
+        {
+          id: `expired:${product.id}:${expiresOn}`,
+          kind: 'expired',
+          productId: product.id,
+          title: 'Listing expired',
+          message: `"${product.title}" is no longer shown to buyers. Renew it from your dashboard.`,
+          createdAt,
+          read: false,
+        },
+      ];
+    }
+    if (isExpiringSoon(product, now)) {
+      const days = daysUntilExpiry(product, now);
+      return [
+        {
+          id: `expiring:${product.id}:${expiresOn}`,
+          kind: 'expiring',
+          productId: product.id,
+          title: 'Listing expiring soon',
+          message: `"${product.title}" expires in ${days} day${days === 1 ? '' : 's'}. Renew it to keep it visible.`,
+          createdAt,
+          read: false,
+        },
+      ];
+    }
+    return [];
+  });
+};
@@ -0,0 +1,36 @@
+/**
+ * Listing Status Lifecycle
+ * Labels and the transitions an owner may make. Every step can be undone:
+ * a reservation can fall through and a buyer can back out of a sale.
+ */
+
+import { ListingStatus, Product } from '../types';
+
+export const STATUS_LABELS: Record<ListingStatus, string> = {
+  [ListingStatus.Available]: 'Available',
+  [ListingStatus.Reserved]: 'Reserved',
+  [ListingStatus.Sold]: 'Sold',
+  [ListingStatus.Withdrawn]: 'Withdrawn',
+};
+
+// Button labels for moving a listing into each status
+export const STATUS_ACTIONS: Record<ListingStatus, string> = {
+  [ListingStatus.Available]: 'Mark as available',
+  [ListingStatus.Reserved]: 'Mark as reserved',
+  [ListingStatus.Sold]: 'Mark as sold',
+  [ListingStatus.Withdrawn]: 'Withdraw',
+};
+
+const TRANSITIONS: Record<ListingStatus, ListingStatus[]> = {
+  [ListingStatus.Available]: [ListingStatus.Reserved, ListingStatus.Sold, ListingStatus.Withdrawn],
+  [ListingStatus.Reserved]: [ListingStatus.Available, ListingStatus.Sold, ListingStatus.Withdrawn],
+  [ListingStatus.Sold]: [ListingStatus.Available],
+  [ListingStatus.Withdrawn]: [ListingStatus.Available],
+};
+
+export const nextStatuses = (status: ListingStatus): ListingStatus[] => TRANSITIONS[status];
+
+// Statuses buyers can see in the feed and on seller profiles
+export const ACTIVE_STATUSES = [ListingStatus.Available, ListingStatus.Reserved];
+
+export const isActive = (product: Product): boolean => ACTIVE_STATUSES.includes(product.status);
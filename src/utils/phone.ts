@@ -0,0 +1,81 @@
+/**
+ * Kenyan Phone Numbers
+ * Parses the many ways students type their number ("0712 345 678",
+ * "+254-712-345678", "712345678"), stores it in E.164 form (+254712345678)
+ * and formats it back for display and WhatsApp links
+ */
+
+export type MobileNetwork = 'Safaricom' | 'Airtel' | 'Telkom';
+
+export interface ParsedPhone {
+  // +254 followed by the 9-digit national number
+  e164: string;
+  network: MobileNetwork;
+}
+
+// Prefixes of the 9-digit national number (without the leading 0), per the
+// Communications Authority numbering plan
+const NETWORK_PREFIXES: Record<MobileNetwork, string[]> = {
+  Safaricom: [
+    '70', '71', '72', '740', '741', '742', '743', '744', '745', '746', '748',
+    '757', '758', '759', '768', '769', '79', '110', '111', '112', '113', '114', '115',
+  ],
+  Airtel: [
+    '73', '750', '751', '752', '753', '754', '755', '756', '762', '78', '100', '101', '102',
+  ],
+  Telkom: ['77'],
+};
+
+// Longest prefixes first, so the most specific allocation wins
+const PREFIXES = (Object.entries(NETWORK_PREFIXES) as [MobileNetwork, string[]][])
+  .flatMap(([network, prefixes]) => prefixes.map((prefix) => ({ network, prefix })))
+  .sort((a, b) => b.prefix.length - a.prefix.length);
+
+const networkFor = (national: string): MobileNetwork | null =>
+  PREFIXES.find(({ prefix }) => national.startsWith(prefix))?.network ?? null;
+
+/**
+ * @param input - Number as typed or stored, in any common Kenyan format
+ * @returns The E.164 number and its network, or null when it isn't a
+ *   Safaricom, Airtel or Telkom mobile number
+ */
+export const parseKenyanPhone = (input: string): ParsedPhone | null => {
+  // Spaces, dashes, dots and brackets are only formatting
+  const compact = input.trim().replace(/[\s\-.()]/g, '');
+  if (!/^\+?\d+$/.test(compact)) return null;
+
+  const digits = compact.replace(/^\+/, '').replace(/^00/, '');
+  let national: string;
+  if (digits.length === 12 && digits.startsWith('254')) national = digits.slice(3);
+  else if (digits.length === 10 && digits.startsWith('0')) national = digits.slice(1);
+  else if (digits.length === 9) national = digits;
+  else return null;
+
+  const network = networkFor(national);
+  return network ? { e164: `+254${national}`, network } : null;
+};
+
+/**
+ * @returns The number in E.164 form, or null when it isn't valid
+ */
+export const toE164 = (input: string): string | null => parseKenyanPhone(input)?.e164 ?? null;
+
+/**
+ * Formats a number the way it's written locally, e.g. "0712 345 678".
+ * Unparseable input is returned unchanged so nothing is hidden from the user.
+ */
+export const formatLocalPhone = (input: string): string => {
+  const parsed = parseKenyanPhone(input);
+  if (!parsed) return input;
+  const national = parsed.e164.slice(4);
+  return `0${national.slice(0, 3)} ${national.slice(3, 6)} ${national.slice(6)}`;
+};
+
+/**
+ * @returns Digits for a wa.me link (country code, no "+"), or null when the
+ *   number can't be reached on WhatsApp
+ */
+export const toWhatsAppNumber = (input: string): string | null =>
+  toE164(input)?.slice(1) ?? null;
+
+export const PHONE_HINT = 'Enter a Safaricom, Airtel or Telkom number, e.g. 0712 345 678.';
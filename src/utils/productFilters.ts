@@ -0,0 +1,167 @@
+/**
+ * Browse Filter Utilities
+ * Converts the home page filters to and from the URL query string so a
+ * filtered view can be bookmarked or shared
+ */
+
+import {
+  Category,
+  Condition,
+  ListingAttributes,
+  ListingStatus,
+  ProductQuery,
+  ProductSort,
+} from '../types';
+import { attributeFields } from './categoryAttributes';
+import { ACTIVE_STATUSES } from './listingStatus';
+
+// Which listings the feed shows; "active" is available and reserved
+export type StatusFilter =
+  | 'active'
+  | ListingStatus.Available
+  | ListingStatus.Reserved
+  | ListingStatus.Sold
+  | 'all';
+
+export interface BrowseFilters {
+  search: string;
+  category: Category | 'All';
+  minPrice: number | null;
+  maxPrice: number | null;
+  conditions: Condition[];
+  // Filters on the selected category's attributes, by field key
+  attributes: ListingAttributes;
+  sort: ProductSort;
+  status: StatusFilter;
+}
+
+export const DEFAULT_FILTERS: BrowseFilters = {
+  search: '',
+  category: 'All',
+  minPrice: null,
+  maxPrice: null,
+  conditions: [],
+  attributes: {},
+  sort: 'newest',
+  status: 'active',
+};
+
+export const SORT_OPTIONS: { value: ProductSort; label: string }[] = [
+  { value: 'newest', label: 'Newest first' },
+  { value: 'price-asc', label: 'Cheapest first' },
+  { value: 'price-desc', label: 'Most expensive first' },
+];
+
+// Withdrawn listings are never shown in the public feed
+export const STATUS_FILTER_OPTIONS: {
+  value: StatusFilter;
+  label: string;
+  statuses: ListingStatus[];
+}[] = [
+  { value: 'active', label: 'Available & reserved', statuses: ACTIVE_STATUSES },
+  { value: ListingStatus.Available, label: 'Available only', statuses: [ListingStatus.Available] },
+  { value: ListingStatus.Reserved, label: 'Reserved only', statuses: [ListingStatus.Reserved] },
+  { value: ListingStatus.Sold, label: 'Sold', statuses: [ListingStatus.Sold] },
+  { value: 'all', label: 'All', statuses: [...ACTIVE_STATUSES, ListingStatus.Sold] },
+];
+
+const isStatusFilter = (value: string | null): value is StatusFilter =>
+  STATUS_FILTER_OPTIONS.some((option) => option.value === value);
+
+const isCategory = (value: string | null): value is Category =>
+  Object.values(Category).includes(value as Category);
+
+const isCondition = (value: string): value is Condition =>
+  Object.values(Condition).includes(value as Condition);
+
+const isSort = (value: string | null): value is ProductSort =>
+  SORT_OPTIONS.some((option) => option.value === value);
+
+const parsePrice = (value: string | null): number | null => {
+  if (value === null || value.trim() === '') return null;
+  const price = Number(value);
+  return Number.isFinite(price) && price >= 0 ? price : null;
+};
+
+// Attribute filters are written as "attr.<key>=<value>"
+const ATTRIBUTE_PREFIX = 'attr.';
+
+/**
+ * Attribute filters for the category's filterable fields; select fields only
+ * accept one of their options
+ */
+const parseAttributes = (params: URLSearchParams, category: Category | 'All') => {
+  const attributes: ListingAttributes = {};
+  attributeFields(category).forEach((field) => {
+    const value = params.get(ATTRIBUTE_PREFIX + field.key)?.trim();
+    if (!value || !field.filterable) return;
+    if (field.type === 'select' && !field.options?.includes(value)) return;
+    attributes[field.key] = value;
+  });
+  return attributes;
+};
+
+/**
+ * Reads filters from a query string, ignoring unknown or malformed values
+ * @param search - location.search, with or without the leading "?"
+ */
+export const filtersFromSearch = (search: string): BrowseFilters => {
+  const params = new URLSearchParams(search);
+  const category = params.get('category');
+  const sort = params.get('sort');
+  const status = params.get('status');
+  const validCategory = isCategory(category) ? category : 'All';
+
+  return {
+    search: params.get('q') ?? '',
+    category: validCategory,
+    minPrice: parsePrice(params.get('min')),
+    maxPrice: parsePrice(params.get('max')),
+    conditions: params.getAll('condition').filter(isCondition),
+    attributes: parseAttributes(params, validCategory),
+    sort: isSort(sort) ? sort : 'newest',
+    // "sold=1" is the old "Show sold items" checkbox
+    status: isStatusFilter(status) ? status : params.get('sold') === '1' ? 'all' : 'active',
+  };
+};
+
+/**
+ * Serializes filters to a query string; defaults are left out to keep URLs short
+ * @returns Query string including the leading "?", or "" when nothing is set
+ */
+export const filtersToSearch = (filters: BrowseFilters): string => {
+  const params = new URLSearchParams();
+  if (filters.search) params.set('q', filters.search);
+  if (filters.category !== 'All') params.set('category', filters.category);
+  if (filters.minPrice !== null) params.set('min', String(filters.minPrice));
+  if (filters.maxPrice !== null) params.set('max', String(filters.maxPrice));
+  filters.conditions.forEach((condition) => params.append('condition', condition));
+  Object.entries(filters.attributes).forEach(([key, value]) => {
+    if (value.trim()) params.set(ATTRIBUTE_PREFIX + key, value.trim());
+  });
+  if (filters.sort !== DEFAULT_FILTERS.sort) params.set('sort', filters.sort);
+  if (filters.status !== DEFAULT_FILTERS.status) params.set('status', filters.status);
+
+  const query = params.toString();
+  return query ? `?${query}` : '';
+};
+
+/**
+ * Maps browse filters to the server-side product feed query
+ */
+export const filtersToQuery = (filters: BrowseFilters): ProductQuery => ({
+  search: filters.search,
+  category: filters.category === 'All' ? undefined : filters.category,
+  minPrice: filters.minPrice ?? undefined,
+  maxPrice: filters.maxPrice ?? undefined,
+  conditions: filters.conditions.length > 0 ? filters.conditions : undefined,
+  attributes: Object.keys(filters.attributes).length > 0 ? filters.attributes : undefined,
+  sort: filters.sort,
+  statuses: STATUS_FILTER_OPTIONS.find((option) => option.value === filters.status)?.statuses,
+});
+
+/**
+ * True when any filter differs from the defaults
+ */
+export const hasActiveFilters = (filters: BrowseFilters): boolean =>
+  filtersToSearch(filters) !== '';
@@ -0,0 +1,44 @@
+/**
+ * Saved Search Matching
+ * Compares the latest listings matching a saved search against what the
+ * user has already been told about and produces new-listing alerts
+ */
+
+import { AppNotification, Product } from '../types';
+import { SavedSearch } from '../store';
+
+/**
+ * @param search - Saved search as last stored
+ * @param matches - Newest listings matching its filters, excluding the user's own
+ * @returns Alerts for listings newer than the last check, plus the updated search
+ */
+export const detectSavedSearchMatches = (
+  search: SavedSearch,
+  matches: Product[]
+): { alerts: AppNotification[]; search: SavedSearch } => {
+  const now = new Date().toISOString();
+  const fresh = matches.filter((product) => product.createdAt > search.lastCheckedAt);
+  const newest = matches.reduce(
+    (latest, product) => (product.createdAt > latest ? product.createdAt : latest),
+    search.lastCheckedAt
+  );
+
+  const alerts: AppNotification[] = fresh.map((product) => ({
+    id: `saved-search:${search.id}:${product.id}`,
+    kind: 'saved-search',
+    productId: product.id,
+    title: `New match for "${search.name}"`,
+    message: `"${product.title}" was just listed for KSh ${product.price.toLocaleString()}.`,
+    createdAt: now,
+    read: false,
+  }));
+
+  return {
+    alerts,
+    search: {
+      ...search,
+      lastCheckedAt: newest,
+      newCount: matches.filter((product) => product.createdAt > search.lastVisitedAt).length,
+    },
+  };
+};
@@ -0,0 +1,57 @@
+/**
+ * Course Unit Catalog
+ * DeKUT unit codes that Books and Drawing Instruments listings can be tagged
+ * with. The catalog in src/data/unitCatalog.json is bundled with the app and
+ * only drives autocomplete: any well-formed code can still be entered, since
+ * it can't list every unit on offer.
+ */
+
+import catalog from '../data/unitCatalog.json';
+import { Category, CourseUnit } from '../types';
+
+export const UNIT_CATALOG: CourseUnit[] = catalog;
+
+// Categories whose listings can carry unit tags
+export const UNIT_TAGGED_CATEGORIES: Category[] = [Category.Books, Category.Drawing_Instruments];
+
+// A listing can serve several units, e.g. a calculus text used in two years
+export const MAX_UNITS_PER_LISTING = 5;
+
+/**
+ * Normalizes a unit code to the catalog's "ABC 1234" form, accepting lower
+ * case, missing or extra spaces and hyphens ("sma2101", "SMA-2101")
+ * @returns The normalized code, or null if it isn't shaped like a unit code
+ */
+export const normalizeUnitCode = (input: string): string | null => {
+  const match = input.trim().match(/^([a-z]{3,4})[\s-]*(\d{3,4})$/i);
+  return match ? `${match[1].toUpperCase()} ${match[2]}` : null;
+};
+
+export const unitTitle = (code: string): string | null =>
+  UNIT_CATALOG.find((unit) => unit.code === code)?.title ?? null;
+
+/**
+ * Catalog units whose code starts with, or whose title contains, the query
+ */
+export const searchUnits = (query: string, limit = 8): CourseUnit[] => {
+  const compact = query.replace(/[\s-]/g, '').toUpperCase();
+  const lower = query.trim().toLowerCase();
+  if (!compact) return [];
+  return UNIT_CATALOG.filter(
+    (unit) =>
+      unit.code.replace(' ', '').startsWith(compact) || unit.title.toLowerCase().includes(lower)
+  ).slice(0, limit);
+};
+
+/**
+ * Parses a comma-separated list of codes (as in the /units query string),
+ * dropping malformed codes and duplicates
+ */
+export const parseUnitCodes = (input: string): string[] => [
+  ...new Set(
+    input
+      .split(',')
+      .map(normalizeUnitCode)
+      .filter((code): code is string => code !== null)
+  ),
+];
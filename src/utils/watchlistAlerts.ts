@@ -0,0 +1,56 @@
+/**
+ * Watchlist Alert Detection
+ * Compares saved listings against the last state the user saw and produces
+ * alerts for price drops and newly sold items
+ */
+
+import { AppNotification, Favorite, ListingStatus } from '../types';
+import { WatchlistSnapshot } from '../store';
+
+/**
+ * @param favorites - Current watchlist from the backend
+ * @param snapshot - Last seen price / status per product
+ * @returns New alerts plus the snapshot to store for next time
+ */
+export const detectWatchlistAlerts = (
+  favorites: Favorite[],
+  snapshot: WatchlistSnapshot
+): { alerts: AppNotification[]; snapshot: WatchlistSnapshot } => {
+  const now = new Date().toISOString();
+  const alerts: AppNotification[] = [];
+  const nextSnapshot: WatchlistSnapshot = {};
+
+  favorites.forEach(({ product }) => {
+    const previous = snapshot[product.id];
+    nextSnapshot[product.id] = { price: product.price, status: product.status };
+
+    // First time we see this listing (or a snapshot from before statuses
+    // existed): nothing to compare against yet
+    if (!previous?.status) return;
+
+    const isSold = product.status === ListingStatus.Sold;
+    if (isSold && previous.status !== ListingStatus.Sold) {
+      alerts.push({
+        id: `sold:${product.id}`,
+        kind: 'sold',
+        productId: product.id,
+        title: 'Saved item sold',
+        message: `"${product.title}" has been marked as sold.`,
+        createdAt: now,
+        read: false,
+      });
+    } else if (!isSold && product.price < previous.price) {
+      alerts.push({
+        id: `price-drop:${product.id}:${product.price}`,
+        kind: 'price-drop',
+        productId: product.id,
+        title: 'Price drop',
+        message: `"${product.title}" dropped from KSh ${previous.price.toLocaleString()} to KSh ${product.price.toLocaleString()}.`,
+        createdAt: now,
+        read: false,
+      });
+    }
+  });
+
+  return { alerts, snapshot: nextSnapshot };
+};
@@ -0,0 +1,196 @@
+-- Buyer–seller messaging tables used by src/Services/chatService.ts.
+-- Run in the Supabase SQL editor. Names are denormalized into conversations
+-- because products and profiles live in the marketplace backend database.
+
+create table if not exists conversations (
+  id uuid primary key default gen_random_uuid(),
+  product_id text not null,
+  product_title text not null,
+  buyer_id text not null,
+  buyer_name text not null,
+  seller_id text not null,
+  seller_name text not null,
+  last_message_at timestamptz not null default now(),
+  last_message_preview text not null default '',
+  created_at timestamptz not null default now(),
+  unique (product_id, buyer_id)
+);
+
+-- Listings buyers can message about, mirrored here by the marketplace backend
+-- (with the service role key) whenever a listing is created, edited or
+-- deleted. Clients can't write it; conversations take their seller and
+-- title from it so they can't be made up.
+create table if not exists messaging_listings (
+  product_id text primary key,
+  seller_id text not null,
+  seller_name text not null,
+  title text not null,
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists messages (
+  id uuid primary key default gen_random_uuid(),
+  conversation_id uuid not null references conversations (id) on delete cascade,
+  sender_id text not null,
+  recipient_id text not null,
+  body text not null check (char_length(body) between 1 and 2000),
+  created_at timestamptz not null default now(),
+  read_at timestamptz
+);
+
+create index if not exists messages_conversation_idx on messages (conversation_id, created_at);
+create index if not exists messages_unread_idx on messages (recipient_id) where read_at is null;
+
+-- Keep the inbox ordering and preview in sync with the latest message
+-- Security definer because participants have no update policy on conversations
+create or replace function touch_conversation() returns trigger
+language plpgsql security definer set search_path = public as $$
+begin
+  update conversations
+     set last_message_at = new.created_at,
+         last_message_preview = left(new.body, 140)
+   where id = new.conversation_id;
+  return new;
+end;
+$$;
+
+drop trigger if exists messages_touch_conversation on messages;
+create trigger messages_touch_conversation
+  after insert on messages
+  for each row execute function touch_conversation();
+
+-- Deliver inserts over Supabase Realtime
+alter publication supabase_realtime add table messages;
+
+-- Row level security: only the two participants can see or write a thread.
+-- The client connects with the anon key plus a short-lived JWT from the
+-- backend's GET /auth/messaging-token, signed with this project's JWT secret,
+-- with the marketplace user id as `sub` and role `authenticated`. Without
+-- one, requests (and Realtime subscriptions) see no rows.
+create or replace function messaging_user_id() returns text
+language sql stable as $$
+  select auth.jwt() ->> 'sub'
+$$;
+
+alter table messaging_listings enable row level security;
+alter table conversations enable row level security;
+alter table messages enable row level security;
+
+-- No policies on messaging_listings: only the service role reads or writes it
+revoke all on messaging_listings from anon, authenticated;
+revoke all on conversations, messages from anon;
+
+drop policy if exists conversations_select on conversations;
+create policy conversations_select on conversations
+  for select to authenticated
+  using (messaging_user_id() in (buyer_id, seller_id));
+
+-- Only the buyer opens a thread, and not on their own listing. Everything
+-- but the product id is filled in by fill_conversation_parties.
+drop policy if exists conversations_insert on conversations;
+create policy conversations_insert on conversations
+  for insert to authenticated
+  with check (buyer_id = messaging_user_id() and seller_id <> buyer_id);
+
+-- Takes the seller and listing title from messaging_listings and the buyer
+-- from the JWT (`sub`, and `name` for the display name)
+create or replace function fill_conversation_parties() returns trigger
+language plpgsql security definer set search_path = public as $$
+declare
+  listing messaging_listings;
+begin
+  select * into listing from messaging_listings where product_id = new.product_id;
+  if not found then
+    raise exception 'unknown listing %', new.product_id using errcode = '23503';
+  end if;
+  new.seller_id := listing.seller_id;
+  new.seller_name := listing.seller_name;
+  new.product_title := listing.title;
+  new.buyer_id := messaging_user_id();
+  new.buyer_name := coalesce(auth.jwt() ->> 'name', '');
+  return new;
+end;
+$$;
+
+drop trigger if exists conversations_fill_parties on conversations;
+create trigger conversations_fill_parties
+  before insert on conversations
+  for each row execute function fill_conversation_parties();
+
+drop policy if exists messages_select on messages;
+create policy messages_select on messages
+  for select to authenticated
+  using (messaging_user_id() in (sender_id, recipient_id));
+
+-- Sender and recipient are set by fill_message_parties below
+drop policy if exists messages_insert on messages;
+create policy messages_insert on messages
+  for insert to authenticated
+  with check (sender_id = messaging_user_id());
+
+-- Recipients can mark messages read and change nothing else
+drop policy if exists messages_update on messages;
+create policy messages_update on messages
+  for update to authenticated
+  using (recipient_id = messaging_user_id())
+  with check (recipient_id = messaging_user_id());
+
+revoke update on messages from authenticated;
+grant update (read_at) on messages to authenticated;
+
+-- Takes the sender from the JWT and the recipient from the conversation, so
+-- clients can't post as someone else or into a thread they aren't part of
+create or replace function fill_message_parties() returns trigger
+language plpgsql security definer set search_path = public as $$
+declare
+  thread conversations;
+begin
+  select * into thread from conversations where id = new.conversation_id;
+  if not found or messaging_user_id() not in (thread.buyer_id, thread.seller_id) then
+    raise exception 'not a participant in conversation %', new.conversation_id
+      using errcode = '42501';
+  end if;
+  new.sender_id := messaging_user_id();
+  new.recipient_id := case
+    when new.sender_id = thread.buyer_id then thread.seller_id
+    else thread.buyer_id
+  end;
+  return new;
+end;
+$$;
+
+drop trigger if exists messages_fill_parties on messages;
+create trigger messages_fill_parties
+  before insert on messages
+  for each row execute function fill_message_parties();
+
+-- Reply stats for public seller profiles. Security definer so visitors get
+-- the aggregate numbers without being able to read anyone's messages.
+-- A conversation counts once the buyer has written; it is answered once the
+-- seller writes after the buyer's first message.
+create or replace function seller_response_stats(seller text)
+returns table (
+  conversations bigint,
+  replied bigint,
+  median_response_minutes double precision
+)
+language sql stable security definer set search_path = public as $$
+  with firsts as (
+    select
+      (select min(m.created_at) from messages m
+        where m.conversation_id = c.id and m.sender_id = c.buyer_id) as asked_at,
+      (select min(m.created_at) from messages m
+        where m.conversation_id = c.id and m.sender_id = c.seller_id) as replied_at
+    from conversations c
+    where c.seller_id = seller
+  )
+  select
+    count(*) filter (where asked_at is not null),
+    count(*) filter (where replied_at > asked_at),
+    percentile_cont(0.5) within group (
+      order by extract(epoch from replied_at - asked_at) / 60
+    ) filter (where replied_at > asked_at)
+  from firsts;
+$$;
+
+grant execute on function seller_response_stats(text) to anon, authenticated;